@@ -1,40 +1,89 @@
 #!/usr/bin/env node
-import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { McpServer, ResourceTemplate } from "@modelcontextprotocol/sdk/server/mcp.js";
 import { StdioServerTransport } from "@modelcontextprotocol/sdk/server/stdio.js";
-import OpenAI from "openai";
+import { StreamableHTTPServerTransport } from "@modelcontextprotocol/sdk/server/streamableHttp.js";
+import type { RequestHandlerExtra } from "@modelcontextprotocol/sdk/shared/protocol.js";
+import { isInitializeRequest, type ServerNotification, type ServerRequest } from "@modelcontextprotocol/sdk/types.js";
+import OpenAI, { AzureOpenAI } from "openai";
 import { z } from "zod";
+import * as fs from "fs";
+import * as path from "path";
+import * as os from "os";
+import * as http from "http";
+import type { AddressInfo } from "net";
+import { fileURLToPath } from "url";
+import { createHash, randomUUID, timingSafeEqual } from "crypto";
+import minimist from "minimist";
+import YAML from "yaml";
+import { Ajv, type ErrorObject, type ValidateFunction } from "ajv";
+import fg from "fast-glob";
+import ignore, { type Ignore } from "ignore";
 
 // ============================================================================
 // Type Definitions
 // ============================================================================
 
 // Define schema for GPT-5 response structure
+const GPT5UrlCitation = z.object({
+  type: z.literal("url_citation"),
+  url: z.string(),
+  title: z.string().optional(),
+  start_index: z.number(),
+  end_index: z.number(),
+});
+
+// Other annotation types (file citations, etc.) are kept but not interpreted
+const GPT5Annotation = z.union([
+  GPT5UrlCitation,
+  z.object({ type: z.string() }).passthrough(),
+]);
+
 const GPT5OutputContent = z.object({
   type: z.literal("output_text"),
   text: z.string(),
-  annotations: z.array(z.any()).optional(),
+  annotations: z.array(GPT5Annotation).optional(),
   logprobs: z.array(z.any()).optional(),
 });
 
+// Returned instead of output_text when the model declines to answer
+const GPT5RefusalContent = z.object({
+  type: z.literal("refusal"),
+  refusal: z.string(),
+});
+
 const GPT5MessageOutput = z.object({
   id: z.string(),
   type: z.literal("message"),
-  status: z.literal("completed"),
-  content: z.array(GPT5OutputContent),
+  status: z.enum(["in_progress", "completed", "incomplete"]),
+  content: z.array(z.union([GPT5OutputContent, GPT5RefusalContent])),
   role: z.literal("assistant"),
 });
 
+// Reasoning summaries are only returned when the request sets reasoning.summary
+const GPT5ReasoningSummary = z.object({
+  type: z.string(),
+  text: z.string(),
+}).passthrough();
+
 const GPT5ReasoningOutput = z.object({
   id: z.string(),
   type: z.literal("reasoning"),
-  summary: z.array(z.any()),
+  summary: z.array(GPT5ReasoningSummary),
 });
 
+// "search" has a query, "open_page" a url and "find" a url plus pattern
+const GPT5WebSearchAction = z.object({
+  type: z.string(),
+  query: z.string().optional(),
+  url: z.string().optional(),
+  pattern: z.string().optional(),
+}).passthrough();
+
 const GPT5WebSearchOutput = z.object({
   id: z.string(),
   type: z.literal("web_search_call"),
-  status: z.literal("completed"),
-  action: z.any().optional(),
+  status: z.enum(["in_progress", "searching", "completed", "failed"]),
+  action: GPT5WebSearchAction.optional(),
 });
 
 const GPT5Output = z.union([
@@ -47,21 +96,47 @@ const GPT5Response = z.object({
   id: z.string(),
   object: z.literal("response"),
   created_at: z.number(),
-  status: z.literal("completed"),
+  status: z.enum(["completed", "incomplete", "failed", "in_progress", "queued", "cancelled"]),
+  // Why an incomplete response stopped, e.g. "max_output_tokens" or "content_filter"
+  incomplete_details: z.object({
+    reason: z.string().optional(),
+  }).passthrough().nullable().optional(),
+  error: z.object({
+    code: z.string().nullable().optional(),
+    message: z.string(),
+  }).passthrough().nullable().optional(),
   model: z.string(),
   output: z.array(GPT5Output),
   usage: z.object({
     input_tokens: z.number(),
     output_tokens: z.number(),
     total_tokens: z.number(),
-    input_tokens_details: z.any().optional(),
-    output_tokens_details: z.any().optional(),
+    input_tokens_details: z.object({
+      cached_tokens: z.number().optional(),
+    }).passthrough().optional(),
+    output_tokens_details: z.object({
+      reasoning_tokens: z.number().optional(),
+    }).passthrough().optional(),
   }).optional(),
 });
 
 // Inferred TypeScript types
 type GPT5Response = z.infer<typeof GPT5Response>;
 type GPT5Output = z.infer<typeof GPT5Output>;
+type GPT5OutputContent = z.infer<typeof GPT5OutputContent>;
+type GPT5UrlCitation = z.infer<typeof GPT5UrlCitation>;
+type GPT5Usage = NonNullable<GPT5Response['usage']>;
+
+// Citation with its character span relative to the text returned to the client
+interface Citation {
+  source: number;
+  title: string;
+  url: string;
+  start_index: number;
+  end_index: number;
+  // Why the citation violates the tool's domain policy, if it does
+  flagged?: string;
+}
 
 // ============================================================================
 // Error Handling
@@ -81,60 +156,644 @@ class HttpError extends Error {
   }
 }
 
-// Retry wrapper with exponential backoff
+class TimeoutError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'TimeoutError';
+  }
+}
+
+class CancelledError extends Error {
+  constructor(message = 'Request was cancelled by the client.') {
+    super(message);
+    this.name = 'CancelledError';
+  }
+}
+
+class CircuitOpenError extends Error {
+  constructor(message: string, public retryAfterMs?: number) {
+    super(message);
+    this.name = 'CircuitOpenError';
+  }
+}
+
+// A tool call's arguments are wrong; retrying the same call cannot succeed
+class ValidationError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ValidationError';
+  }
+}
+
+// Delay asked for by retry-after-ms, or by retry-after in seconds or as an HTTP date
+function parseRetryAfter(
+  headers: { get(name: string): string | null } | undefined,
+  now: number = Date.now(),
+): number | undefined {
+  const milliseconds = parseFloat(headers?.get('retry-after-ms') ?? '');
+  if (milliseconds >= 0) {
+    return milliseconds;
+  }
+
+  const value = headers?.get('retry-after');
+  if (!value) {
+    return undefined;
+  }
+  const seconds = Number(value);
+  if (Number.isFinite(seconds)) {
+    return Math.max(0, seconds * 1000);
+  }
+  const date = Date.parse(value);
+  return Number.isNaN(date) ? undefined : Math.max(0, date - now);
+}
+
+// Convert an OpenAI SDK error into an HttpError; other errors pass through unchanged
+function toHttpError(error: unknown): unknown {
+  if (error instanceof Error && 'status' in error) {
+    const status = (error as any).status;
+    const body = (error as any).response?.data || (error as any).error;
+
+    // Extract error type and code from OpenAI error response
+    const errorType = body?.error?.type || (error as any).type;
+    const errorCode = body?.error?.code || (error as any).code;
+
+    // The SDK exposes response headers as a Headers object on the error
+    const retryAfterMs = parseRetryAfter((error as any).headers);
+
+    return new HttpError(
+      `OpenAI API error: ${error.message}`,
+      status || 500,
+      body,
+      retryAfterMs,
+      errorType,
+      errorCode
+    );
+  }
+  return error;
+}
+
+interface RetryPolicy {
+  retries: number;
+  baseDelayMs: number;
+  maxDelayMs: number;
+  // Abort an attempt, including reading its stream, after this long
+  attemptTimeoutMs: number;
+  // Stop retrying once this long has passed since the first attempt
+  totalTimeoutMs: number;
+}
+
+const defaultRetryPolicy: RetryPolicy = {
+  retries: parseInt(process.env.RETRY_MAX_RETRIES || '2') || 0,
+  baseDelayMs: parseInt(process.env.RETRY_BASE_DELAY_MS || '') || 300,
+  maxDelayMs: parseInt(process.env.RETRY_MAX_DELAY_MS || '') || 10_000,
+  attemptTimeoutMs: parseInt(process.env.REQUEST_TIMEOUT_MS || '') || 10 * 60 * 1000,
+  totalTimeoutMs: parseInt(process.env.REQUEST_DEADLINE_MS || '') || 15 * 60 * 1000,
+};
+
+// Errors that suggest the upstream is down rather than the request being wrong
+function isOutageError(error: unknown): boolean {
+  return error instanceof TimeoutError || (error instanceof HttpError && error.status >= 500);
+}
+
+// Fails fast after `threshold` outage errors in a row until `cooldownMs` has
+// passed; then one trial call decides whether the circuit closes again
+class CircuitBreaker {
+  private failures = 0;
+  private openedAt?: number;
+  private trialRunning = false;
+
+  constructor(public key: string, public threshold: number, public cooldownMs: number) {}
+
+  // Throws while the circuit is open. Returns true when the caller is the trial call.
+  check(now: number = Date.now()): boolean {
+    if (this.openedAt === undefined) {
+      return false;
+    }
+    const remainingMs = this.openedAt + this.cooldownMs - now;
+    if (remainingMs > 0 || this.trialRunning) {
+      throw new CircuitOpenError(
+        `${this.key} is unavailable after ${this.failures} failed calls in a row; not calling it for ${Math.ceil(Math.max(remainingMs, 0) / 1000)}s.`,
+        Math.max(remainingMs, 0),
+      );
+    }
+    this.trialRunning = true;
+    return true;
+  }
+
+  // The trial call ended without an answer either way, e.g. it was cancelled;
+  // the circuit stays open and the next call becomes the trial
+  abandonTrial() {
+    this.trialRunning = false;
+  }
+
+  success() {
+    this.failures = 0;
+    this.openedAt = undefined;
+    this.trialRunning = false;
+  }
+
+  failure(now: number = Date.now()) {
+    this.failures++;
+    this.trialRunning = false;
+    if (this.failures >= this.threshold) {
+      this.openedAt = now;
+    }
+  }
+}
+
+const circuits = new Map<string, CircuitBreaker>();
+
+// One circuit per provider and model
+function circuitFor(provider: string, model: string): CircuitBreaker {
+  const key = `${provider}:${model}`;
+  let circuit = circuits.get(key);
+  if (!circuit) {
+    circuit = new CircuitBreaker(
+      key,
+      parseInt(process.env.CIRCUIT_FAILURE_THRESHOLD || '') || 5,
+      parseInt(process.env.CIRCUIT_COOLDOWN_MS || '') || 30_000,
+    );
+    circuits.set(key, circuit);
+  }
+  return circuit;
+}
+
+// Sleep that ends early with CancelledError when the signal aborts
+function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(new CancelledError());
+      return;
+    }
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(new CancelledError());
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+}
+
+interface RetryOptions {
+  policy?: RetryPolicy;
+  // Cancels the running attempt and any further retries
+  signal?: AbortSignal;
+  circuit?: CircuitBreaker;
+  // Waits for a local rate limiter slot before each attempt. The wait counts
+  // toward the total deadline but not the attempt timeout, and its errors
+  // never count for or against the circuit.
+  acquire?: (signal: AbortSignal) => Promise<{ release: () => void }>;
+}
+
+// Run `acquire` until the total deadline, ending early on cancellation
+async function acquireSlot(
+  acquire: (signal: AbortSignal) => Promise<{ release: () => void }>,
+  remainingMs: number,
+  totalTimeoutMs: number,
+  signal?: AbortSignal,
+): Promise<{ release: () => void }> {
+  const controller = new AbortController();
+  const timer = setTimeout(
+    () => controller.abort(new TimeoutError(`Request did not succeed within ${totalTimeoutMs / 1000}s.`)),
+    remainingMs,
+  );
+  const onCancel = () => controller.abort(new CancelledError());
+  signal?.addEventListener('abort', onCancel, { once: true });
+  try {
+    return await acquire(controller.signal);
+  } catch (error) {
+    throw controller.signal.aborted ? controller.signal.reason : error;
+  } finally {
+    clearTimeout(timer);
+    signal?.removeEventListener('abort', onCancel);
+  }
+}
+
+// Retry wrapper with exponential backoff and full jitter. Each attempt gets its
+// own AbortSignal that fires on the attempt timeout or on cancellation. Only
+// answers and errors from the upstream count for the circuit.
 async function withRetry<T>(
-  fn: () => Promise<T>,
-  opts = { retries: 2, baseDelayMs: 300 }
+  fn: (signal: AbortSignal) => Promise<T>,
+  { policy = defaultRetryPolicy, signal, circuit, acquire }: RetryOptions = {},
 ): Promise<T> {
+  const deadline = Date.now() + policy.totalTimeoutMs;
   let attempt = 0;
 
   while (true) {
+    if (signal?.aborted) {
+      throw new CancelledError();
+    }
+    const slot = acquire ? await acquireSlot(acquire, deadline - Date.now(), policy.totalTimeoutMs, signal) : undefined;
+    const remainingMs = deadline - Date.now();
+    let trial: boolean;
+    try {
+      if (remainingMs <= 0) {
+        throw new TimeoutError(`Request did not succeed within ${policy.totalTimeoutMs / 1000}s.`);
+      }
+      trial = circuit?.check() ?? false;
+    } catch (error) {
+      slot?.release();
+      throw error;
+    }
+
+    const attemptTimeoutMs = Math.min(policy.attemptTimeoutMs, remainingMs);
+    const controller = new AbortController();
+    const timer = setTimeout(
+      () => controller.abort(new TimeoutError(`Request timed out after ${attemptTimeoutMs / 1000}s.`)),
+      attemptTimeoutMs,
+    );
+    const onCancel = () => controller.abort(new CancelledError());
+    signal?.addEventListener('abort', onCancel, { once: true });
+
     try {
-      return await fn();
-    } catch (e) {
+      const result = await fn(controller.signal).finally(() => slot?.release());
+      circuit?.success();
+      return result;
+    } catch (caught) {
+      // An aborted attempt surfaces as an SDK abort error; report why it was aborted
+      const e = controller.signal.aborted ? controller.signal.reason : caught;
+      if (isOutageError(e)) {
+        circuit?.failure();
+      } else if (e instanceof HttpError) {
+        circuit?.success();
+      } else if (trial) {
+        // Cancelled, or failed locally: the upstream gave no answer either way
+        circuit!.abandonTrial();
+      }
+      if (e instanceof CancelledError) {
+        throw e;
+      }
+
       attempt++;
       const isHttp = e instanceof HttpError;
 
       // Don't retry insufficient_quota errors - they won't resolve by retrying
       const isQuotaError = isHttp && (e.errorType === 'insufficient_quota' || e.errorCode === 'insufficient_quota');
-      const retriable = isHttp && !isQuotaError && (e.status === 429 || (e.status >= 500 && e.status <= 599));
+      const retriable = e instanceof TimeoutError
+        || (isHttp && !isQuotaError && (e.status === 429 || (e.status >= 500 && e.status <= 599)));
+
+      if (!retriable || attempt > policy.retries) {
+        throw e;
+      }
 
-      if (!retriable || attempt > opts.retries) {
+      const backoffMs = Math.random() * Math.min(policy.maxDelayMs, policy.baseDelayMs * Math.pow(2, attempt - 1));
+      const delayMs = isHttp && e.retryAfterMs !== undefined ? e.retryAfterMs : backoffMs;
+      if (Date.now() + delayMs >= deadline) {
         throw e;
       }
+      await sleep(delayMs, signal);
+    } finally {
+      clearTimeout(timer);
+      signal?.removeEventListener('abort', onCancel);
+    }
+  }
+}
+
+// ============================================================================
+// Rate Limiting
+// ============================================================================
+
+// Requests and tokens per minute allowed for a model; either may be left out
+const RateLimit = z.object({
+  rpm: z.number().positive().optional(),
+  tpm: z.number().positive().optional(),
+}).strict();
+
+type RateLimit = z.infer<typeof RateLimit>;
+
+// Parse RATE_LIMITS, e.g. {"gpt-5": {"rpm": 500, "tpm": 500000}, "default": {"rpm": 60}}
+function loadRateLimits(): Record<string, RateLimit> {
+  if (!process.env.RATE_LIMITS) {
+    return {};
+  }
+
+  let limits: unknown;
+  try {
+    limits = JSON.parse(process.env.RATE_LIMITS);
+  } catch (error) {
+    throw new ConfigError(`Cannot parse RATE_LIMITS: ${error instanceof Error ? error.message : error}`);
+  }
+
+  const parsed = z.record(RateLimit).safeParse(limits);
+  if (!parsed.success) {
+    throw new ConfigError(`Invalid RATE_LIMITS:\n${formatIssues(parsed.error)}`);
+  }
+  return parsed.data;
+}
+
+class QueueFullError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'QueueFullError';
+  }
+}
+
+// Bucket that refills continuously, `capacity` units per minute
+class TokenBucket {
+  private available: number;
+  private updatedAt = Date.now();
+
+  constructor(public capacity: number) {
+    this.available = capacity;
+  }
+
+  private refill() {
+    const now = Date.now();
+    this.available = Math.min(this.capacity, this.available + (now - this.updatedAt) * this.capacity / 60_000);
+    this.updatedAt = now;
+  }
+
+  // Milliseconds until `amount` units are available (0 if they are now).
+  // Requests larger than the whole bucket only wait for a full bucket.
+  waitTime(amount: number): number {
+    this.refill();
+    const missing = Math.min(amount, this.capacity) - this.available;
+    return missing > 0 ? Math.ceil(missing * 60_000 / this.capacity) : 0;
+  }
+
+  take(amount: number) {
+    this.refill();
+    this.available -= Math.min(amount, this.capacity);
+  }
+
+  // Adopt the limit and remaining amount reported by the API
+  sync(capacity: number, remaining: number | undefined) {
+    this.refill();
+    this.capacity = capacity;
+    this.available = Math.min(this.available, this.capacity, remaining ?? Infinity);
+  }
+}
+
+interface ModelBuckets {
+  requests?: TokenBucket;
+  tokens?: TokenBucket;
+}
+
+// Client-side rate limiter shared by all tools: per-model request and token
+// buckets, then a bounded queue for a limited number of concurrent calls.
+// Buckets start from RATE_LIMITS and follow the x-ratelimit-* headers.
+class RateLimiter {
+  private buckets = new Map<string, ModelBuckets>();
+  private active = 0;
+  private waiting = 0;
+  private slotQueue: (() => void)[] = [];
+
+  constructor(
+    private limits: Record<string, RateLimit>,
+    public maxConcurrent: number,
+    public maxQueued: number,
+  ) {}
+
+  // Longest matching model prefix, as for prices; "default" covers the rest
+  private limitFor(model: string): RateLimit {
+    const match = Object.keys(this.limits)
+      .filter(name => model === name || model.startsWith(`${name}-`))
+      .sort((a, b) => b.length - a.length)[0];
+    return this.limits[match ?? 'default'] ?? {};
+  }
+
+  private bucketsFor(provider: string, model: string): ModelBuckets {
+    const key = `${provider}:${model}`;
+    let buckets = this.buckets.get(key);
+    if (!buckets) {
+      const limit = this.limitFor(model);
+      buckets = {
+        requests: limit.rpm ? new TokenBucket(limit.rpm) : undefined,
+        tokens: limit.tpm ? new TokenBucket(limit.tpm) : undefined,
+      };
+      this.buckets.set(key, buckets);
+    }
+    return buckets;
+  }
+
+  // Wait until the model's budget and a concurrency slot are free. Throws
+  // QueueFullError instead of queueing more than maxQueued calls, and
+  // CancelledError, leaving the queue, when the signal aborts.
+  async acquire(
+    provider: string,
+    model: string,
+    estimatedTokens: number,
+    onWait?: (message: string) => Promise<void>,
+    signal?: AbortSignal,
+  ): Promise<{ release: () => void; waitedMs: number }> {
+    if (signal?.aborted) {
+      throw new CancelledError();
+    }
+    if (this.waiting >= this.maxQueued) {
+      throw new QueueFullError(`Rate limit queue is full (${this.waiting} calls waiting). Try again later.`);
+    }
+
+    const started = Date.now();
+    this.waiting++;
+    try {
+      const buckets = this.bucketsFor(provider, model);
+      while (true) {
+        const waitMs = Math.max(buckets.requests?.waitTime(1) ?? 0, buckets.tokens?.waitTime(estimatedTokens) ?? 0);
+        if (waitMs === 0) {
+          break;
+        }
+        await onWait?.(`Rate limit for ${model}: waiting ${(waitMs / 1000).toFixed(1)}s`);
+        await sleep(waitMs, signal);
+      }
+      buckets.requests?.take(1);
+      buckets.tokens?.take(estimatedTokens);
 
-      const delayMs = (isHttp && e.retryAfterMs) || opts.baseDelayMs * Math.pow(2, attempt - 1);
-      await new Promise(resolve => setTimeout(resolve, delayMs));
+      if (this.active >= this.maxConcurrent) {
+        await onWait?.(`Waiting for a free slot: ${this.active} calls running, ${this.slotQueue.length + 1} queued`);
+      }
+      // Check again: a slot may have been released during the progress report
+      if (this.active >= this.maxConcurrent) {
+        // release() hands its slot straight to the next queued call
+        await new Promise<void>((resolve, reject) => {
+          if (signal?.aborted) {
+            reject(new CancelledError());
+            return;
+          }
+          const onAbort = () => {
+            this.slotQueue.splice(this.slotQueue.indexOf(waiter), 1);
+            reject(new CancelledError());
+          };
+          const waiter = () => {
+            signal?.removeEventListener('abort', onAbort);
+            resolve();
+          };
+          this.slotQueue.push(waiter);
+          signal?.addEventListener('abort', onAbort, { once: true });
+        });
+      } else {
+        this.active++;
+      }
+    } finally {
+      this.waiting--;
     }
+
+    let released = false;
+    return {
+      waitedMs: Date.now() - started,
+      release: () => {
+        if (released) {
+          return;
+        }
+        released = true;
+        const next = this.slotQueue.shift();
+        if (next) {
+          next();
+        } else {
+          this.active--;
+        }
+      },
+    };
+  }
+
+  // Follow the x-ratelimit-* headers of a response (or error response). A
+  // configured limit lower than the API's is kept.
+  observe(provider: string, model: string, headers: { get(name: string): string | null }) {
+    const header = (name: string) => {
+      const value = Number(headers.get(name) ?? NaN);
+      return Number.isFinite(value) ? value : undefined;
+    };
+    const limit = this.limitFor(model);
+    const buckets = this.bucketsFor(provider, model);
+
+    const sync = (bucket: TokenBucket | undefined, configured: number | undefined, kind: string) => {
+      const apiLimit = header(`x-ratelimit-limit-${kind}`);
+      const remaining = header(`x-ratelimit-remaining-${kind}`);
+      const capacity = Math.min(configured ?? Infinity, apiLimit ?? Infinity);
+      if (!Number.isFinite(capacity)) {
+        return bucket;
+      }
+      const synced = bucket ?? new TokenBucket(capacity);
+      synced.sync(capacity, remaining);
+      return synced;
+    };
+    buckets.requests = sync(buckets.requests, limit.rpm, 'requests');
+    buckets.tokens = sync(buckets.tokens, limit.tpm, 'tokens');
   }
 }
 
+// Rough input token count of a request: about 4 characters per token of text
+// and a flat amount per image or file
+function estimateInputTokens(params: Record<string, any>): number {
+  const textLength = (value: unknown): number => {
+    if (typeof value === 'string') {
+      return value.length;
+    }
+    if (Array.isArray(value)) {
+      return value.reduce((sum: number, item) => sum + textLength(item), 0);
+    }
+    if (value && typeof value === 'object') {
+      const part = value as Record<string, unknown>;
+      if (part.type === 'input_image' || part.type === 'input_file') {
+        return 4000;
+      }
+      return textLength(part.text ?? part.content ?? '');
+    }
+    return 0;
+  };
+  return Math.ceil((textLength(params.input) + textLength(params.instructions ?? '')) / 4);
+}
+
+// Rough token count of a request: its input plus the output token cap
+function estimateRequestTokens(params: Record<string, any>): number {
+  return estimateInputTokens(params) + (params.max_output_tokens ?? 0);
+}
+
+// Created in main() so that a bad RATE_LIMITS is reported as a startup error
+let rateLimiter: RateLimiter;
+
 // ============================================================================
 // Tool Configuration
 // ============================================================================
 
+type ReasoningEffort = 'minimal' | 'low' | 'medium' | 'high';
+type SearchContextSize = 'low' | 'medium' | 'high';
+type Verbosity = 'low' | 'medium' | 'high';
+
+// Error classes that can move a call on to the next model in a fallback chain
+const FALLBACK_TRIGGERS = ['server_error', 'rate_limit', 'quota', 'model_not_found', 'timeout', 'circuit_open'] as const;
+type FallbackTrigger = typeof FALLBACK_TRIGGERS[number];
+
+// Quota is per account, so another model on the same key rarely helps
+const DEFAULT_FALLBACK_TRIGGERS: FallbackTrigger[] = ['server_error', 'rate_limit', 'model_not_found', 'timeout', 'circuit_open'];
+
+// Ordered from cheapest to most expensive, for min/max limit checks
+const EFFORT_LEVELS: ReasoningEffort[] = ['minimal', 'low', 'medium', 'high'];
+const SEARCH_CONTEXT_SIZES: SearchContextSize[] = ['low', 'medium', 'high'];
+
+interface UserLocation {
+  country?: string;
+  region?: string;
+  city?: string;
+  timezone?: string;
+}
+
 interface ToolConfig {
-  model: 'gpt-5' | 'gpt-5.2';
+  model: string;
   reasoning: {
-    effort: 'low' | 'medium' | 'high';
+    effort: ReasoningEffort;
   };
   webSearch?: {
     enabled: boolean;
-    contextSize?: 'low' | 'medium' | 'high';
+    contextSize?: SearchContextSize;
+    // Only search and cite these domains (and their subdomains)
+    allowedDomains?: string[];
+    // Never cite these domains; citations from them are flagged in the result
+    blockedDomains?: string[];
+    userLocation?: UserLocation;
+    // Prefer sources published within this many days
+    recencyDays?: number;
   };
   description: string;
+  // System instructions sent with every request made by this tool
+  instructions?: string;
+  // Answer length/detail (Responses API text.verbosity)
+  verbosity?: Verbosity;
+  // Per-call overrides must stay within these limits
+  limits?: {
+    // Sent with every request, and the most a call may ask for
+    maxOutputTokens?: number;
+    minEffort?: ReasoningEffort;
+    maxEffort?: ReasoningEffort;
+    maxSearchContextSize?: SearchContextSize;
+    // Calls may not turn web search off
+    requireWebSearch?: boolean;
+  };
+  // Provider name from `providerFactories`; defaults to DEFAULT_PROVIDER or 'openai'
+  provider?: string;
+  // Save answers longer than this many characters as gpt5-output:// resources
+  // and return only a preview (0 saves every answer)
+  resourceThreshold?: number;
+  requiresExplicitConfirmation?: boolean;
+  // Overrides of the server-wide retry policy (RETRY_* and REQUEST_* env vars)
+  retry?: Partial<RetryPolicy>;
+  // Continue answers cut off at the output token limit up to this many times
+  autoContinue?: number;
+  // Models tried in order when `model` fails with one of the `on` errors
+  // (after its retries); defaults to DEFAULT_FALLBACK_TRIGGERS
+  fallback?: {
+    models: string[];
+    on?: FallbackTrigger[];
+  };
 }
 
-// Tool configurations registry - Lean version with only essential tools
-const toolConfigs: Record<string, ToolConfig> = {
+// Retry policy for a tool: the server defaults with the tool's overrides
+function retryPolicyFor(config: ToolConfig): RetryPolicy {
+  return { ...defaultRetryPolicy, ...config.retry };
+}
+
+// Default tool registry, used when no config file is given
+const defaultToolConfigs: Record<string, ToolConfig> = {
   'gpt5-search': {
     model: 'gpt-5',
-    reasoning: { effort: process.env.REASONING_EFFORT as 'low' | 'medium' | 'high' || 'medium' },
+    reasoning: { effort: process.env.REASONING_EFFORT as ReasoningEffort || 'medium' },
     webSearch: {
       enabled: true,
-      contextSize: process.env.SEARCH_CONTEXT_SIZE as 'low' | 'medium' | 'high' || 'medium',
+      contextSize: process.env.SEARCH_CONTEXT_SIZE as SearchContextSize || 'medium',
     },
-    description: 'An AI agent with advanced web search capabilities using GPT-5. Useful for finding the latest information, troubleshooting errors, and discussing ideas or design challenges. NOTE: Cannot read local files - only accepts text prompts.',
+    description: 'An AI agent with advanced web search capabilities using GPT-5. Useful for finding the latest information, troubleshooting errors, and discussing ideas or design challenges. NOTE: Cannot browse local files; attach them with the files/globs arguments.',
   },
   'gpt5-high': {
     model: 'gpt-5',
@@ -143,16 +802,17 @@ const toolConfigs: Record<string, ToolConfig> = {
       enabled: true,
       contextSize: 'high',
     },
-    description: 'GPT-5 with high reasoning effort and web search capabilities. Best for complex problems requiring deep analysis and current information. NOTE: Cannot read local files - only accepts text prompts.',
+    description: 'GPT-5 with high reasoning effort and web search capabilities. Best for complex problems requiring deep analysis and current information. NOTE: Cannot browse local files; attach them with the files/globs arguments.',
   },
   'gpt5.2-search': {
     model: 'gpt-5.2',
-    reasoning: { effort: process.env.REASONING_EFFORT as 'low' | 'medium' | 'high' || 'medium' },
+    reasoning: { effort: process.env.REASONING_EFFORT as ReasoningEffort || 'medium' },
     webSearch: {
       enabled: true,
-      contextSize: process.env.SEARCH_CONTEXT_SIZE as 'low' | 'medium' | 'high' || 'medium',
+      contextSize: process.env.SEARCH_CONTEXT_SIZE as SearchContextSize || 'medium',
     },
-    description: 'GPT-5.2 with web search - the best model for coding and agentic tasks. 400K context, Aug 2025 knowledge. NOTE: Cannot read local files - only accepts text prompts.',
+    description: 'GPT-5.2 with web search - the best model for coding and agentic tasks. 400K context, Aug 2025 knowledge. NOTE: Cannot browse local files; attach them with the files/globs arguments.',
+    fallback: { models: ['gpt-5', 'gpt-5-mini'] },
   },
   'gpt5.2-high': {
     model: 'gpt-5.2',
@@ -161,199 +821,4103 @@ const toolConfigs: Record<string, ToolConfig> = {
       enabled: true,
       contextSize: 'high',
     },
-    description: 'GPT-5.2 with high reasoning effort and web search. Best for complex coding, architecture, and agentic tasks requiring deep analysis. NOTE: Cannot read local files - only accepts text prompts.',
+    description: 'GPT-5.2 with high reasoning effort and web search. Best for complex coding, architecture, and agentic tasks requiring deep analysis. NOTE: Cannot browse local files; attach them with the files/globs arguments.',
+    fallback: { models: ['gpt-5', 'gpt-5-mini'] },
   },
 };
 
-// ============================================================================
-// Core Functions
-// ============================================================================
+// Names reserved for the server's own (non-model) tools
+const RESERVED_TOOL_NAMES = [
+  'list_sessions', 'end_session', 'cache_stats', 'cache_clear', 'usage_report',
+  'submit', 'job_status', 'job_result', 'job_cancel', 'gpt5-research', 'compare',
+];
 
-// Initialize OpenAI client
-const openai = new OpenAI({
-  apiKey: process.env.OPENAI_API_KEY,
-});
+// Bare domain such as "nvd.nist.gov"; a scheme, path or "www." prefix is stripped
+const DomainName = z.string()
+  .transform(value => value.trim().toLowerCase().replace(/^[a-z]+:\/\//, '').replace(/\/.*$/, '').replace(/^www\./, ''))
+  .refine(value => /^[a-z0-9-]+(\.[a-z0-9-]+)+$/.test(value), 'must be a domain name such as "example.com"');
 
-// Create server instance
-const server = new McpServer({
-  name: "gpt5-search-mcp",
-  version: "0.0.3",
-});
+const UserLocationSchema = z.object({
+  country: z.string().length(2).describe('Two-letter ISO country code, e.g. "US"').optional(),
+  region: z.string().optional(),
+  city: z.string().optional(),
+  timezone: z.string().describe('IANA timezone, e.g. "America/Chicago"').optional(),
+}).strict();
 
-// Helper function to extract text from GPT-5 response
-function extractResponseText(output: GPT5Output[]): string {
-  // Find message outputs with text content
-  const messageOutputs = output.filter(
-    (item): item is z.infer<typeof GPT5MessageOutput> => item.type === 'message'
-  );
+// Schema for one tool definition in a registry config file
+const ToolDefinition = z.object({
+  name: z.string().regex(/^[a-zA-Z0-9_.-]{1,64}$/, 'must be 1-64 characters of letters, digits, "_", "-" or "."'),
+  model: z.string().min(1),
+  reasoning: z.object({
+    effort: z.enum(['minimal', 'low', 'medium', 'high']),
+  }).strict(),
+  webSearch: z.object({
+    enabled: z.boolean(),
+    contextSize: z.enum(['low', 'medium', 'high']).optional(),
+    allowedDomains: z.array(DomainName).optional(),
+    blockedDomains: z.array(DomainName).optional(),
+    userLocation: UserLocationSchema.optional(),
+    recencyDays: z.number().int().positive().optional(),
+  }).strict().optional(),
+  description: z.string().min(1),
+  instructions: z.string().min(1).optional(),
+  verbosity: z.enum(['low', 'medium', 'high']).optional(),
+  limits: z.object({
+    maxOutputTokens: z.number().int().positive().optional(),
+    minEffort: z.enum(['minimal', 'low', 'medium', 'high']).optional(),
+    maxEffort: z.enum(['minimal', 'low', 'medium', 'high']).optional(),
+    maxSearchContextSize: z.enum(['low', 'medium', 'high']).optional(),
+    requireWebSearch: z.boolean().optional(),
+  }).strict().optional(),
+  provider: z.string().optional(),
+  resourceThreshold: z.number().int().nonnegative().optional(),
+  requiresExplicitConfirmation: z.boolean().optional(),
+  retry: z.object({
+    retries: z.number().int().nonnegative().optional(),
+    baseDelayMs: z.number().int().nonnegative().optional(),
+    maxDelayMs: z.number().int().nonnegative().optional(),
+    attemptTimeoutMs: z.number().int().positive().optional(),
+    totalTimeoutMs: z.number().int().positive().optional(),
+  }).strict().optional(),
+  autoContinue: z.number().int().min(0).max(10).optional(),
+  fallback: z.object({
+    models: z.array(z.string().min(1)).min(1),
+    on: z.array(z.enum(FALLBACK_TRIGGERS)).min(1).optional(),
+  }).strict().optional(),
+}).strict();
 
-  if (messageOutputs.length === 0) {
-    return "No response text available.";
+// Schema for one prompt template in a registry config file; {{name}}
+// placeholders must be declared as arguments
+const PromptDefinition = z.object({
+  name: z.string().regex(/^[a-zA-Z0-9_.-]{1,64}$/, 'must be 1-64 characters of letters, digits, "_", "-" or "."'),
+  description: z.string().min(1),
+  template: z.string().min(1),
+  arguments: z.array(z.object({
+    name: z.string().regex(/^[a-zA-Z_][a-zA-Z0-9_]*$/, 'must be letters, digits or "_"'),
+    description: z.string().optional(),
+    required: z.boolean().optional(),
+  }).strict()).min(1),
+}).strict();
+
+const ToolRegistryFile = z.object({
+  tools: z.array(ToolDefinition).min(1),
+  prompts: z.array(PromptDefinition).optional(),
+}).strict();
+
+class ConfigError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ConfigError';
   }
+}
 
-  // Extract and concatenate all text content
-  const texts = messageOutputs
-    .flatMap(msg => msg.content)
-    .filter(content => content.type === 'output_text')
-    .map(content => content.text);
+// Format Zod issues as one "path: message" line each
+function formatIssues(error: z.ZodError): string {
+  return error.issues
+    .map(issue => `  - ${issue.path.join('.') || '(root)'}: ${issue.message}`)
+    .join('\n');
+}
 
-  return texts.join('\n\n') || "No response text available.";
+// Check that a tool's own settings respect its limits
+function checkLimits(config: ToolConfig): string[] {
+  const limits = config.limits ?? {};
+  const problems: string[] = [];
+  const effort = EFFORT_LEVELS.indexOf(config.reasoning.effort);
+  if (limits.minEffort && effort < EFFORT_LEVELS.indexOf(limits.minEffort)) {
+    problems.push(`reasoning.effort "${config.reasoning.effort}" is below limits.minEffort "${limits.minEffort}"`);
+  }
+  if (limits.maxEffort && effort > EFFORT_LEVELS.indexOf(limits.maxEffort)) {
+    problems.push(`reasoning.effort "${config.reasoning.effort}" is above limits.maxEffort "${limits.maxEffort}"`);
+  }
+  const contextSize = config.webSearch?.contextSize;
+  if (contextSize && limits.maxSearchContextSize && SEARCH_CONTEXT_SIZES.indexOf(contextSize) > SEARCH_CONTEXT_SIZES.indexOf(limits.maxSearchContextSize)) {
+    problems.push(`webSearch.contextSize "${contextSize}" is above limits.maxSearchContextSize "${limits.maxSearchContextSize}"`);
+  }
+  if (limits.requireWebSearch && !config.webSearch?.enabled) {
+    problems.push('limits.requireWebSearch needs webSearch.enabled');
+  }
+  if (config.reasoning.effort === 'minimal' && config.webSearch?.enabled) {
+    problems.push('reasoning.effort "minimal" cannot be combined with web search');
+  }
+  return problems;
 }
 
-// Tool factory function
-function createTool(name: string, config: ToolConfig) {
-  return server.tool(
-    name,
-    config.description,
-    { 
-      input: z.string().describe('Ask questions, search for information, or consult about problems in English.')
-    },
-    async ({ input }) => {
-      try {
-        // Build request parameters
-        const requestParams: any = {
-          model: config.model,
-          reasoning: config.reasoning,
-          input: input,
-        };
+// Validate tool definitions and build the name -> config registry
+function buildToolRegistry(definitions: unknown, source: string): Record<string, ToolConfig> {
+  const parsed = ToolRegistryFile.safeParse(definitions);
+  if (!parsed.success) {
+    throw new ConfigError(`Invalid tool config in ${source}:\n${formatIssues(parsed.error)}`);
+  }
 
-        // Add web search tool if enabled
-        if (config.webSearch?.enabled) {
-          requestParams.tools = [{
-            type: "web_search_preview",
-            search_context_size: config.webSearch.contextSize || 'medium',
-          }];
-        }
+  const registry: Record<string, ToolConfig> = {};
+  const problems: string[] = [];
 
-        // Make API call with retry logic
-        const response = await withRetry(async () => {
-          try {
-            const apiResponse = await openai.responses.create(requestParams);
-            return apiResponse as any; // OpenAI SDK types don't match actual response
-          } catch (error) {
-            if (error instanceof Error && 'status' in error) {
-              const status = (error as any).status;
-              const body = (error as any).response?.data || (error as any).error;
-
-              // Extract error type and code from OpenAI error response
-              const errorType = body?.error?.type || (error as any).type;
-              const errorCode = body?.error?.code || (error as any).code;
-
-              // Extract retry-after header if available
-              const retryAfter = (error as any).response?.headers?.['retry-after'];
-              const retryAfterMs = retryAfter ? parseInt(retryAfter) * 1000 : undefined;
-
-              throw new HttpError(
-                `OpenAI API error: ${error.message}`,
-                status || 500,
-                body,
-                retryAfterMs,
-                errorType,
-                errorCode
-              );
-            }
-            throw error;
-          }
-        });
+  parsed.data.tools.forEach(({ name, ...config }, index) => {
+    if (registry[name] || RESERVED_TOOL_NAMES.includes(name)) {
+      problems.push(`  - tools.${index}.name: duplicate or reserved tool name "${name}"`);
+    }
+    if (config.provider && !providerFactories[config.provider]) {
+      problems.push(`  - tools.${index}.provider: unknown provider "${config.provider}" (available: ${Object.keys(providerFactories).join(', ')})`);
+    }
+    problems.push(...checkLimits(config).map(problem => `  - tools.${index}: ${problem}`));
+    registry[name] = config;
+  });
 
-        // Validate response structure
-        const validationResult = GPT5Response.safeParse(response);
-        
-        if (!validationResult.success) {
-          console.error("Response validation failed:", validationResult.error);
-          // Fall back to unvalidated extraction if validation fails
-          const responseText = extractResponseText(response.output as any[]);
-          return {
-            content: [
-              {
-                type: "text",
-                text: responseText,
-              },
-            ],
-          };
-        }
+  if (problems.length > 0) {
+    throw new ConfigError(`Invalid tool config in ${source}:\n${problems.join('\n')}`);
+  }
 
-        // Extract text from validated response
-        const responseText = extractResponseText(validationResult.data.output);
+  return registry;
+}
 
-        return {
-          content: [
-            {
-              type: "text",
-              text: responseText,
-            },
-          ],
-        };
-      } catch (error) {
-        console.error(`Error in tool ${name}:`, error);
-        
-        // Provide structured error response
-        if (error instanceof HttpError) {
-          let errorMessage = `Error (${error.status}): ${error.message}`;
-
-          // Check for insufficient quota (no credits/budget)
-          const isQuotaError = error.errorType === 'insufficient_quota' || error.errorCode === 'insufficient_quota';
-
-          if (isQuotaError) {
-            errorMessage = "Insufficient OpenAI credits. You have exceeded your current quota. Please check your OpenAI plan and billing details at https://platform.openai.com/account/billing";
-          } else if (error.status === 429) {
-            errorMessage = `Rate limited. ${error.retryAfterMs ? `Please retry after ${error.retryAfterMs / 1000} seconds.` : 'Please try again later.'}`;
-          } else if (error.status === 401) {
-            errorMessage = "Authentication failed. Please check your OPENAI_API_KEY.";
-          } else if (error.status >= 500) {
-            errorMessage = "OpenAI service is temporarily unavailable. Please try again later.";
-          }
+// Read and parse a JSON or YAML config file
+function readConfigFile(configPath: string): { resolvedPath: string; definitions: unknown } {
+  const resolvedPath = path.resolve(configPath);
+  let raw: string;
+  try {
+    raw = fs.readFileSync(resolvedPath, 'utf-8');
+  } catch (error) {
+    throw new ConfigError(`Cannot read tool config ${resolvedPath}: ${error instanceof Error ? error.message : error}`);
+  }
 
-          return {
-            content: [
-              {
-                type: "text",
-                text: errorMessage,
-              },
-            ],
-          };
-        }
-        
-        return {
-          content: [
-            {
-              type: "text",
-              text: `Error: ${error instanceof Error ? error.message : "Unknown error occurred"}`,
-            },
-          ],
-        };
-      }
-    }
-  );
+  try {
+    return { resolvedPath, definitions: /\.ya?ml$/i.test(resolvedPath) ? YAML.parse(raw) : JSON.parse(raw) };
+  } catch (error) {
+    throw new ConfigError(`Cannot parse tool config ${resolvedPath}: ${error instanceof Error ? error.message : error}`);
+  }
 }
 
-// ============================================================================
-// Register Tools
-// ============================================================================
+// Load the tool registry from a JSON or YAML file, or fall back to the defaults
+function loadToolConfigs(configPath: string | undefined): Record<string, ToolConfig> {
+  if (!configPath) {
+    const tools = Object.entries(defaultToolConfigs).map(([name, config]) => ({ name, ...config }));
+    return buildToolRegistry({ tools }, 'default tool config (check REASONING_EFFORT and SEARCH_CONTEXT_SIZE)');
+  }
 
-// Create all tools from configuration
-Object.entries(toolConfigs).forEach(([name, config]) => {
-  createTool(name, config);
-});
+  const { resolvedPath, definitions } = readConfigFile(configPath);
+  return buildToolRegistry(definitions, resolvedPath);
+}
 
 // ============================================================================
-// Main Function
+// Prompt Templates
 // ============================================================================
 
-async function main() {
-  const transport = new StdioServerTransport();
-  await server.connect(transport);
-  
-  // Check API key after connection is established
-  if (!process.env.OPENAI_API_KEY) {
-    process.stderr.write("Warning: OPENAI_API_KEY environment variable is not set. Tools will fail without it.\n");
-  }
-  
+type PromptTemplate = Omit<z.infer<typeof PromptDefinition>, 'name'>;
+
+// Built-in templates; a config file's `prompts` add to them or replace them by name
+const defaultPromptTemplates: Record<string, PromptTemplate> = {
+  'troubleshoot-error': {
+    description: 'Search for known causes and fixes of an error message.',
+    template: 'Troubleshoot this error. Search for known causes and fixes, prefer official documentation and issue trackers, and list the most likely fix first.\n\nError:\n{{input}}\n\nWhat I was doing: {{context}}\nEnvironment: {{environment}}',
+    arguments: [
+      { name: 'input', description: 'The error message or stack trace', required: true },
+      { name: 'context', description: 'What you were doing when the error occurred' },
+      { name: 'environment', description: 'Versions of the OS, runtime and libraries involved' },
+    ],
+  },
+  'compare-libraries': {
+    description: 'Compare libraries or tools for a use case using current information.',
+    template: 'Compare these libraries using current information: {{input}}.\n\nUse case: {{use_case}}\nCriteria: {{criteria}}\n\nCover maintenance activity, latest versions, performance, API ergonomics and known problems, and end with a recommendation.',
+    arguments: [
+      { name: 'input', description: 'Libraries to compare, e.g. "zod vs yup vs valibot"', required: true },
+      { name: 'use_case', description: 'What the library will be used for' },
+      { name: 'criteria', description: 'Criteria that matter most, e.g. bundle size' },
+    ],
+  },
+  'security-advisory-lookup': {
+    description: 'Look up published security advisories for a package, product or CVE.',
+    template: 'Look up published security advisories for {{input}}.\n\nVersion in use: {{version}}\nEcosystem: {{ecosystem}}\n\nList each advisory with its CVE/GHSA id, severity, affected and fixed versions, and a link to the advisory. Say whether the version in use is affected. If nothing is found, say so plainly.',
+    arguments: [
+      { name: 'input', description: 'Package, product or CVE id', required: true },
+      { name: 'version', description: 'Version in use' },
+      { name: 'ecosystem', description: 'Package ecosystem, e.g. npm or PyPI' },
+    ],
+  },
+};
+
+const TEMPLATE_VARIABLE = /\{\{\s*([a-zA-Z_][a-zA-Z0-9_]*)\s*\}\}/g;
+
+// Load prompt templates from the config file on top of the built-in ones
+function loadPromptTemplates(configPath: string | undefined): Record<string, PromptTemplate> {
+  const templates = { ...defaultPromptTemplates };
+  if (!configPath) {
+    return templates;
+  }
+
+  const { resolvedPath, definitions } = readConfigFile(configPath);
+  const parsed = ToolRegistryFile.safeParse(definitions);
+  if (!parsed.success) {
+    throw new ConfigError(`Invalid tool config in ${resolvedPath}:\n${formatIssues(parsed.error)}`);
+  }
+
+  const problems: string[] = [];
+  (parsed.data.prompts ?? []).forEach(({ name, ...template }, index) => {
+    const declared = template.arguments.map(argument => argument.name);
+    const variables = [...template.template.matchAll(TEMPLATE_VARIABLE)].map(([, variable]) => variable);
+    // A tool call's input is passed as {{input}}; without it the query would be dropped
+    if (!variables.includes('input')) {
+      problems.push(`  - prompts.${index}.template: must contain {{input}}`);
+    }
+    for (const variable of variables) {
+      if (!declared.includes(variable)) {
+        problems.push(`  - prompts.${index}.template: {{${variable}}} is not declared in arguments`);
+      }
+    }
+    templates[name] = template;
+  });
+
+  if (problems.length > 0) {
+    throw new ConfigError(`Invalid tool config in ${resolvedPath}:\n${problems.join('\n')}`);
+  }
+
+  return templates;
+}
+
+// Created in main() from the built-in templates plus the config file
+let promptTemplates: Record<string, PromptTemplate> = defaultPromptTemplates;
+
+// Fill in a template's {{variables}}. Lines whose variables are all empty are
+// dropped, so optional arguments can be left out.
+function renderTemplate(name: string, values: Record<string, string | undefined>): string {
+  const template = promptTemplates[name];
+  if (!template) {
+    throw new ValidationError(`Unknown template "${name}". Available: ${Object.keys(promptTemplates).join(', ')}`);
+  }
+
+  const missing = template.arguments
+    .filter(argument => argument.required && !values[argument.name]?.trim())
+    .map(argument => argument.name);
+  if (missing.length > 0) {
+    throw new ValidationError(`Template "${name}" is missing required arguments: ${missing.join(', ')}`);
+  }
+
+  return template.template
+    .split('\n')
+    .filter(line => {
+      const variables = [...line.matchAll(TEMPLATE_VARIABLE)].map(match => match[1]);
+      return variables.length === 0 || variables.some(variable => values[variable]?.trim());
+    })
+    .map(line => line.replace(TEMPLATE_VARIABLE, (_, variable: string) => values[variable]?.trim() ?? ''))
+    .join('\n');
+}
+
+// Expose each template as an MCP prompt that renders to one user message
+function registerPrompts(server: McpServer) {
+  for (const [name, template] of Object.entries(promptTemplates)) {
+    const argsSchema = Object.fromEntries(template.arguments.map(argument => {
+      const schema = z.string().describe(argument.description ?? argument.name);
+      return [argument.name, argument.required ? schema : schema.optional()];
+    }));
+
+    server.prompt(name, template.description, argsSchema, async args => ({
+      messages: [
+        {
+          role: 'user' as const,
+          content: { type: 'text' as const, text: renderTemplate(name, args) },
+        },
+      ],
+    }));
+  }
+}
+
+// ============================================================================
+// Providers
+// ============================================================================
+
+// A Responses API backend. Tools never talk to an OpenAI client directly; they
+// go through the provider named in their ToolConfig.
+interface Provider {
+  name: string;
+  // The signal aborts the request, including reading the stream
+  streamResponse(params: Record<string, any>, signal?: AbortSignal): Promise<AsyncIterable<ResponseStreamEvent>>;
+  // Non-streaming create, used to start background responses
+  createResponse(params: Record<string, any>, signal?: AbortSignal): Promise<any>;
+  retrieveResponse(id: string, signal?: AbortSignal): Promise<any>;
+  cancelResponse(id: string, signal?: AbortSignal): Promise<any>;
+}
+
+// Parse "model=deployment,model=deployment" into a lookup table
+function parseDeployments(value: string | undefined): Record<string, string> {
+  const deployments: Record<string, string> = {};
+  for (const entry of (value || '').split(',')) {
+    const [model, deployment] = entry.split('=').map(part => part.trim());
+    if (model && deployment) {
+      deployments[model] = deployment;
+    }
+  }
+  return deployments;
+}
+
+// Provider backed by an OpenAI SDK client; `deployments` maps configured model
+// names to the names the endpoint expects (Azure deployment names)
+function createClientProvider(
+  name: string,
+  client: OpenAI,
+  deployments: Record<string, string> = {},
+): Provider {
+  // Create a response and pass its rate limit headers (also those of an
+  // error response) to the rate limiter
+  const create = async (params: Record<string, any>, stream: boolean, signal?: AbortSignal) => {
+    try {
+      const { data, response } = await client.responses.create({
+        ...params,
+        model: deployments[params.model] ?? params.model,
+        stream,
+      }, { signal }).withResponse();
+      rateLimiter.observe(name, params.model, response.headers);
+      return data;
+    } catch (error) {
+      if (error instanceof OpenAI.APIError && error.headers) {
+        rateLimiter.observe(name, params.model, error.headers);
+      }
+      throw error;
+    }
+  };
+
+  return {
+    name,
+    async streamResponse(params, signal) {
+      // OpenAI SDK overloads don't narrow on an untyped params object
+      return await create(params, true, signal) as unknown as AsyncIterable<ResponseStreamEvent>;
+    },
+    async createResponse(params, signal) {
+      return create(params, false, signal);
+    },
+    async retrieveResponse(id, signal) {
+      return client.responses.retrieve(id, {}, { signal });
+    },
+    async cancelResponse(id, signal) {
+      return client.responses.cancel(id, { signal });
+    },
+  };
+}
+
+// Provider adapters, created lazily so unused providers need no credentials.
+// SDK retries are off: withRetry applies the retry policy and circuit breaker.
+const providerFactories: Record<string, () => Provider> = {
+  openai: () => createClientProvider('openai', new OpenAI({
+    apiKey: process.env.OPENAI_API_KEY,
+    maxRetries: 0,
+  })),
+  azure: () => createClientProvider(
+    'azure',
+    new AzureOpenAI({
+      endpoint: process.env.AZURE_OPENAI_ENDPOINT,
+      apiKey: process.env.AZURE_OPENAI_API_KEY,
+      apiVersion: process.env.AZURE_OPENAI_API_VERSION || '2025-04-01-preview',
+      maxRetries: 0,
+    }),
+    parseDeployments(process.env.AZURE_OPENAI_DEPLOYMENTS),
+  ),
+  // Any OpenAI-compatible endpoint: corporate gateways, local stub servers, etc.
+  compatible: () => createClientProvider(
+    'compatible',
+    new OpenAI({
+      baseURL: process.env.OPENAI_COMPATIBLE_BASE_URL,
+      apiKey: process.env.OPENAI_COMPATIBLE_API_KEY || 'unused',
+      maxRetries: 0,
+    }),
+    parseDeployments(process.env.OPENAI_COMPATIBLE_MODELS),
+  ),
+};
+
+const providers = new Map<string, Provider>();
+
+// Name of the provider a tool uses
+function providerName(config: ToolConfig): string {
+  return config.provider || process.env.DEFAULT_PROVIDER || 'openai';
+}
+
+// Look up (and on first use, create) the provider for a tool
+function getProvider(config: ToolConfig): Provider {
+  return getProviderByName(providerName(config));
+}
+
+function getProviderByName(name: string): Provider {
+  let provider = providers.get(name);
+  if (!provider) {
+    const factory = providerFactories[name];
+    if (!factory) {
+      throw new Error(`Unknown provider "${name}". Available providers: ${Object.keys(providerFactories).join(', ')}`);
+    }
+    provider = factory();
+    providers.set(name, provider);
+  }
+  return provider;
+}
+
+// ============================================================================
+// Core Functions
+// ============================================================================
+
+const SERVER_NAME = "gpt5-search-mcp";
+const SERVER_VERSION = "0.0.3";
+
+// Separator used when joining multiple output_text parts
+const TEXT_SEPARATOR = '\n\n';
+
+// Helper function to extract text and url citations from GPT-5 response
+function extractResponseText(output: GPT5Output[]): { text: string; citations: Citation[] } {
+  // Find message outputs with text content
+  const messageOutputs = output.filter(
+    (item): item is z.infer<typeof GPT5MessageOutput> => item.type === 'message'
+  );
+
+  if (messageOutputs.length === 0) {
+    return { text: "No response text available.", citations: [] };
+  }
+
+  const contents = messageOutputs
+    .flatMap(msg => msg.content)
+    .filter((content): content is GPT5OutputContent => content.type === 'output_text');
+
+  // Extract and concatenate all text content, shifting citation spans so they
+  // index into the concatenated text
+  const texts: string[] = [];
+  const citations: Citation[] = [];
+  const sourceNumbers = new Map<string, number>();
+  let offset = 0;
+
+  for (const content of contents) {
+    for (const annotation of content.annotations ?? []) {
+      const parsed = GPT5UrlCitation.safeParse(annotation);
+      if (!parsed.success) {
+        continue;
+      }
+
+      const citation: GPT5UrlCitation = parsed.data;
+      let source = sourceNumbers.get(citation.url);
+      if (source === undefined) {
+        source = sourceNumbers.size + 1;
+        sourceNumbers.set(citation.url, source);
+      }
+
+      citations.push({
+        source,
+        title: citation.title || citation.url,
+        url: citation.url,
+        start_index: citation.start_index + offset,
+        end_index: citation.end_index + offset,
+      });
+    }
+
+    texts.push(content.text);
+    offset += content.text.length + TEXT_SEPARATOR.length;
+  }
+
+  return {
+    text: texts.join(TEXT_SEPARATOR) || "No response text available.",
+    citations,
+  };
+}
+
+// Why an answer may be partial or missing: the response did not complete, or
+// the model refused
+function responseWarnings(response: any, output: GPT5Output[]): string[] {
+  const warnings: string[] = [];
+  const reason = response.incomplete_details?.reason;
+
+  if (response.status === 'incomplete') {
+    if (reason === 'max_output_tokens') {
+      warnings.push('The answer was cut off at the output token limit, so it is incomplete. Raise max_output_tokens or ask for a shorter answer.');
+    } else if (reason === 'content_filter') {
+      warnings.push('The answer was stopped by the content filter, so it is incomplete.');
+    } else {
+      warnings.push(`The answer is incomplete (${reason ?? 'no reason given'}).`);
+    }
+  } else if (response.status === 'in_progress' || response.status === 'queued') {
+    warnings.push(`The response has not finished (status: ${response.status}); the text so far may be incomplete.`);
+  }
+
+  const refusals = output
+    .filter((item): item is z.infer<typeof GPT5MessageOutput> => item.type === 'message')
+    .flatMap(msg => msg.content)
+    .flatMap(content => content.type === 'refusal' ? [content.refusal] : []);
+  for (const refusal of refusals) {
+    warnings.push(`The model refused to answer: ${refusal}`);
+  }
+
+  return warnings;
+}
+
+// Status fields for structuredContent
+function responseStatus(response: any) {
+  return {
+    status: response.status,
+    ...(response.incomplete_details?.reason ? { incomplete_reason: response.incomplete_details.reason } : {}),
+  };
+}
+
+// Whether a response stopped at its output token limit and can be continued
+function isTruncated(response: any): boolean {
+  return response.status === 'incomplete' && response.incomplete_details?.reason === 'max_output_tokens';
+}
+
+// Join a continuation's output onto a truncated response's output. The first
+// text of the continuation carries on the last text of the earlier answer, so
+// it is appended to it, with its citation spans shifted to match.
+function appendContinuation(output: any[], continuation: any[]): any[] {
+  const merged = structuredClone(output);
+  const rest = structuredClone(continuation);
+
+  const lastMessage = merged.filter(item => item.type === 'message').at(-1);
+  const lastText = lastMessage?.content.filter((content: any) => content.type === 'output_text').at(-1);
+  const nextMessage = rest.find(item => item.type === 'message');
+  const nextIndex = nextMessage ? nextMessage.content.findIndex((content: any) => content.type === 'output_text') : -1;
+
+  if (lastText && nextIndex >= 0) {
+    const [nextText] = nextMessage.content.splice(nextIndex, 1);
+    const offset = lastText.text.length;
+    lastText.annotations = [
+      ...(lastText.annotations ?? []),
+      ...(nextText.annotations ?? []).map((annotation: any) => annotation.type === 'url_citation'
+        ? { ...annotation, start_index: annotation.start_index + offset, end_index: annotation.end_index + offset }
+        : annotation),
+    ];
+    lastText.text += nextText.text;
+    lastMessage.status = nextMessage.status;
+  }
+
+  return [...merged, ...rest.filter(item => item.type !== 'message' || item.content.length > 0)];
+}
+
+// What the model did on the way to its answer
+interface ResponseTrace {
+  searches: string[];
+  opened_pages: string[];
+  find_in_page: { url: string; pattern: string }[];
+  reasoning_summary: string[];
+}
+
+// Collect search queries, opened pages and reasoning summaries from the output
+function extractTrace(output: GPT5Output[]): ResponseTrace {
+  const trace: ResponseTrace = { searches: [], opened_pages: [], find_in_page: [], reasoning_summary: [] };
+
+  for (const item of output) {
+    if (item.type === 'reasoning') {
+      trace.reasoning_summary.push(...(item.summary ?? []).map(part => part.text).filter(Boolean));
+    } else if (item.type === 'web_search_call' && item.action) {
+      const { type, query, url, pattern } = item.action;
+      if (type === 'search' && query) {
+        trace.searches.push(query);
+      } else if (type === 'open_page' && url) {
+        trace.opened_pages.push(url);
+      } else if (type === 'find' && url && pattern) {
+        trace.find_in_page.push({ url, pattern });
+      }
+    }
+  }
+
+  return trace;
+}
+
+// Compact, human-readable form of a trace
+function formatTrace(trace: ResponseTrace): string {
+  const lines = ['Trace:'];
+  lines.push(trace.searches.length > 0 ? `Searched:\n${trace.searches.map(query => `- ${query}`).join('\n')}` : 'Searched: nothing');
+  if (trace.opened_pages.length > 0) {
+    lines.push(`Opened:\n${trace.opened_pages.map(url => `- ${url}`).join('\n')}`);
+  }
+  if (trace.find_in_page.length > 0) {
+    lines.push(`Found in page:\n${trace.find_in_page.map(find => `- "${find.pattern}" in ${find.url}`).join('\n')}`);
+  }
+  lines.push(trace.reasoning_summary.length > 0
+    ? `Reasoning summary:\n${trace.reasoning_summary.join('\n\n')}`
+    : 'Reasoning summary: none returned');
+  return lines.join('\n');
+}
+
+// Collapse citations to one entry per source, in source-number order
+function uniqueSources(citations: Citation[]): Citation[] {
+  const seen = new Set<number>();
+  return citations.filter(citation => {
+    if (seen.has(citation.source)) {
+      return false;
+    }
+    seen.add(citation.source);
+    return true;
+  });
+}
+
+// Build the MCP tool result for a model response, flagging citations that
+// violate the tool's domain policy
+function buildToolResult(
+  output: GPT5Output[],
+  metadata: Record<string, unknown> = {},
+  domainPolicy?: DomainPolicy,
+  warnings: string[] = [],
+) {
+  const { text, citations } = extractResponseText(output);
+  for (const citation of citations) {
+    const flagged = domainPolicy && checkDomainPolicy(citation.url, domainPolicy);
+    if (flagged) {
+      citation.flagged = flagged;
+    }
+  }
+  return formatToolResult(text, citations, metadata, warnings);
+}
+
+// Format an answer as an MCP tool result: text with a numbered "Sources"
+// section and any warnings, one resource_link per source, and the raw
+// citation spans as structured content
+function formatToolResult(
+  text: string,
+  citations: Citation[],
+  metadata: Record<string, unknown> = {},
+  warnings: string[] = [],
+) {
+  const sources = uniqueSources(citations);
+  const flaggedCount = sources.filter(s => s.flagged).length;
+
+  const sourcesSection = sources.length > 0
+    ? `${TEXT_SEPARATOR}Sources:\n${sources.map(s => `[${s.source}] ${s.title} - ${s.url}${s.flagged ? ` [FLAGGED: ${s.flagged}]` : ''}`).join('\n')}`
+    : '';
+  const flaggedWarning = flaggedCount > 0
+    ? `${TEXT_SEPARATOR}Warning: ${flaggedCount} source(s) violate this tool's domain policy; treat claims citing them with caution.`
+    : '';
+  const otherWarnings = warnings.map(warning => `${TEXT_SEPARATOR}Warning: ${warning}`).join('');
+
+  return {
+    content: [
+      {
+        type: "text" as const,
+        text: text + sourcesSection + flaggedWarning + otherWarnings,
+      },
+      ...sources.map(s => ({
+        type: "resource_link" as const,
+        uri: s.url,
+        name: s.title,
+        description: s.flagged ? `Source [${s.source}] (flagged: ${s.flagged})` : `Source [${s.source}]`,
+      })),
+    ],
+    structuredContent: {
+      ...metadata,
+      ...(warnings.length > 0 ? { warnings } : {}),
+      text,
+      citations,
+    } as Record<string, unknown> & { text: string; citations: Citation[] },
+  };
+}
+
+type ToolResult = ReturnType<typeof formatToolResult>;
+
+// Model answers carry text and citations; other results (e.g. confirmation
+// prompts) do not
+function isToolResult(result: { structuredContent?: Record<string, unknown> }): result is ToolResult {
+  return Array.isArray(result.structuredContent?.citations);
+}
+
+// ============================================================================
+// Saved Outputs
+// ============================================================================
+
+const OUTPUT_URI_SCHEME = 'gpt5-output';
+
+// Characters returned by a resources/read without an explicit length
+const OUTPUT_PAGE_CHARS = 100_000;
+
+// Characters of a saved answer included in the tool result
+const OUTPUT_PREVIEW_CHARS = 1000;
+
+interface SavedOutput {
+  id: string;
+  // Client that saved it, see clientOf()
+  owner?: string;
+  tool: string;
+  model: string;
+  createdAt: number;
+  totalChars: number;
+  responseId?: string;
+  usage?: unknown;
+  citations: Citation[];
+}
+
+// Answers saved on disk (text plus a JSON metadata sidecar) and served as
+// gpt5-output:// resources. Outputs past the retention period, or beyond
+// maxOutputs, are deleted oldest first.
+class OutputStore {
+  constructor(private dir: string, private retentionMs: number, private maxOutputs: number) {
+    this.cleanup();
+  }
+
+  save(owner: string, tool: string, model: string, text: string, structured: Record<string, any>): SavedOutput {
+    const timestamp = new Date().toISOString().replace(/[:.]/g, '-');
+    const output: SavedOutput = {
+      id: `${tool}-${timestamp}-${randomUUID().slice(0, 8)}`,
+      owner,
+      tool,
+      model: structured.usage?.model ?? model,
+      createdAt: Date.now(),
+      totalChars: text.length,
+      responseId: structured.response_id,
+      usage: structured.usage,
+      citations: structured.citations ?? [],
+    };
+
+    fs.mkdirSync(this.dir, { recursive: true });
+    fs.writeFileSync(this.textPath(output.id), text, 'utf-8');
+    fs.writeFileSync(this.metaPath(output.id), JSON.stringify(output), 'utf-8');
+    this.cleanup();
+    return output;
+  }
+
+  // An output, if it exists and, when owner is given, belongs to that client
+  get(id: string, owner?: string): SavedOutput | undefined {
+    // Ids are generated by save(); anything else could escape the directory
+    if (!/^[A-Za-z0-9_.-]+$/.test(id)) {
+      return undefined;
+    }
+    let output: SavedOutput;
+    try {
+      output = JSON.parse(fs.readFileSync(this.metaPath(id), 'utf-8')) as SavedOutput;
+    } catch {
+      return undefined;
+    }
+    return owner === undefined || isOwnedBy(output, owner) ? output : undefined;
+  }
+
+  read(id: string, offset: number, length: number): string {
+    return fs.readFileSync(this.textPath(id), 'utf-8').slice(offset, offset + length);
+  }
+
+  list(owner?: string): SavedOutput[] {
+    let files: string[];
+    try {
+      files = fs.readdirSync(this.dir).filter(file => file.endsWith('.json'));
+    } catch {
+      return [];
+    }
+    return files
+      .map(file => this.get(file.slice(0, -'.json'.length), owner))
+      .filter((output): output is SavedOutput => output !== undefined)
+      .sort((a, b) => b.createdAt - a.createdAt);
+  }
+
+  private cleanup(): void {
+    const cutoff = Date.now() - this.retentionMs;
+    this.list().forEach((output, index) => {
+      if (output.createdAt < cutoff || index >= this.maxOutputs) {
+        fs.rmSync(this.textPath(output.id), { force: true });
+        fs.rmSync(this.metaPath(output.id), { force: true });
+      }
+    });
+  }
+
+  private textPath(id: string) {
+    return path.join(this.dir, `${id}.txt`);
+  }
+
+  private metaPath(id: string) {
+    return path.join(this.dir, `${id}.json`);
+  }
+}
+
+// Created in main() so retention settings are applied when the server starts
+let outputs: OutputStore;
+
+function outputUri(id: string) {
+  return `${OUTPUT_URI_SCHEME}://${id}`;
+}
+
+// Save the answer as a gpt5-output:// resource when it exceeds the tool's
+// resourceThreshold, and return a preview with a link to the resource instead
+function saveAsResourceIfLarge(name: string, config: ToolConfig | undefined, result: ToolResult, owner: string) {
+  // The first content item is the answer text including its Sources section
+  const answer = result.content[0];
+  const responseText = answer.type === 'text' ? answer.text : result.structuredContent.text;
+
+  if (config?.resourceThreshold === undefined || responseText.length <= config.resourceThreshold) {
+    return result;
+  }
+
+  let saved: SavedOutput;
+  try {
+    saved = outputs.save(owner, name, config.model, responseText, result.structuredContent);
+  } catch (error) {
+    console.error(`Error saving ${name} output as resource:`, error);
+    // Fall back to returning the full result
+    return result;
+  }
+
+  const uri = outputUri(saved.id);
+  const preview = responseText.substring(0, OUTPUT_PREVIEW_CHARS);
+  const truncated = responseText.length > OUTPUT_PREVIEW_CHARS;
+
+  return {
+    content: [
+      {
+        type: "text" as const,
+        text: `${name} response saved as resource ${uri} (${saved.totalChars} chars). Read it with resources/read; add ?offset=N&length=M to read a range.\n\nResponse preview (first ${OUTPUT_PREVIEW_CHARS} chars):\n${preview}${truncated ? '...\n\n[Output truncated. See full response in the resource above]' : ''}`,
+      },
+      {
+        type: "resource_link" as const,
+        uri,
+        name: saved.id,
+        mimeType: 'text/plain',
+        description: `Full ${name} response (${saved.totalChars} chars)`,
+      },
+      ...result.content.slice(1),
+    ],
+    structuredContent: {
+      ...result.structuredContent,
+      text: preview,
+      resource_uri: uri,
+      total_chars: saved.totalChars,
+    },
+  };
+}
+
+// Expose saved outputs through resources/list and resources/read
+function registerOutputResources(server: McpServer) {
+  server.resource(
+    'saved-output',
+    new ResourceTemplate(`${OUTPUT_URI_SCHEME}://{id}`, {
+      list: async extra => ({
+        resources: outputs.list(clientOf(extra)).map(output => ({
+          uri: outputUri(output.id),
+          name: output.id,
+          title: `${output.tool} response (${new Date(output.createdAt).toISOString()})`,
+          mimeType: 'text/plain',
+          description: `${output.tool} / ${output.model}, ${output.totalChars} chars`,
+        })),
+      }),
+    }),
+    {
+      description: 'Saved model responses. Append ?offset=N&length=M to read a range of a large response.',
+      mimeType: 'text/plain',
+    },
+    async (uri, variables, extra) => {
+      // The template variable also captures any query string
+      const id = String(variables.id).split('?')[0];
+      const output = outputs.get(id, clientOf(extra));
+      if (!output) {
+        throw new Error(`Unknown saved output: ${uri.href}`);
+      }
+
+      const offset = Math.max(0, parseInt(uri.searchParams.get('offset') || '') || 0);
+      const length = Math.max(1, parseInt(uri.searchParams.get('length') || '') || OUTPUT_PAGE_CHARS);
+      const text = outputs.read(id, offset, length);
+      const nextOffset = offset + text.length;
+
+      return {
+        contents: [
+          {
+            uri: uri.href,
+            mimeType: 'text/plain',
+            text,
+            _meta: {
+              tool: output.tool,
+              model: output.model,
+              created_at: new Date(output.createdAt).toISOString(),
+              response_id: output.responseId,
+              usage: output.usage,
+              citations: output.citations,
+              offset,
+              total_chars: output.totalChars,
+              ...(nextOffset < output.totalChars
+                ? { next: `${outputUri(id)}?offset=${nextOffset}&length=${length}` }
+                : {}),
+            },
+          },
+        ],
+      };
+    }
+  );
+}
+
+// ============================================================================
+// Web Search Settings
+// ============================================================================
+
+interface DomainPolicy {
+  allowed: string[];
+  blocked: string[];
+}
+
+// Per-call web search options supplied by the client
+interface WebSearchOptions {
+  allowed_domains?: string[];
+  blocked_domains?: string[];
+  user_location?: UserLocation;
+  recency_days?: number;
+}
+
+// Normalize per-call domain arguments, rejecting anything that isn't a domain name
+function parseDomains(values: string[] | undefined, field: string): string[] {
+  return (values ?? []).map(value => {
+    const parsed = DomainName.safeParse(value);
+    if (!parsed.success) {
+      throw new ValidationError(`Invalid ${field} entry "${value}": must be a domain name such as "example.com"`);
+    }
+    return parsed.data;
+  });
+}
+
+// True when host is the domain itself or one of its subdomains
+function matchesDomain(host: string, domain: string): boolean {
+  return host === domain || host.endsWith(`.${domain}`);
+}
+
+// Return why a URL violates the domain policy, or undefined if it complies
+function checkDomainPolicy(url: string, policy: DomainPolicy): string | undefined {
+  let host: string;
+  try {
+    host = new URL(url).hostname.toLowerCase();
+  } catch {
+    return undefined;
+  }
+
+  if (policy.blocked.some(domain => matchesDomain(host, domain))) {
+    return 'blocked domain';
+  }
+  if (policy.allowed.length > 0 && !policy.allowed.some(domain => matchesDomain(host, domain))) {
+    return 'outside allowed domains';
+  }
+  return undefined;
+}
+
+// Merge tool config and per-call web search settings into the Responses API
+// tool spec, extra instructions for hints the API has no field for, and the
+// domain policy used to flag citations. Per-call allowed domains may only
+// narrow a tool's allowlist; blocked domains accumulate.
+function resolveWebSearch(
+  webSearch: NonNullable<ToolConfig['webSearch']>,
+  options: WebSearchOptions,
+): { tool: Record<string, unknown>; hints: string[]; policy: DomainPolicy } {
+  const configAllowed = webSearch.allowedDomains ?? [];
+  const callAllowed = parseDomains(options.allowed_domains, 'allowed_domains');
+  const outsideAllowlist = callAllowed.filter(domain => configAllowed.length > 0 && !configAllowed.some(allowed => matchesDomain(domain, allowed)));
+  if (outsideAllowlist.length > 0) {
+    throw new ValidationError(`allowed_domains outside this tool's allowlist: ${outsideAllowlist.join(', ')}`);
+  }
+
+  const policy: DomainPolicy = {
+    allowed: callAllowed.length > 0 ? callAllowed : configAllowed,
+    blocked: [...new Set([...(webSearch.blockedDomains ?? []), ...parseDomains(options.blocked_domains, 'blocked_domains')])],
+  };
+  const userLocation = options.user_location ?? webSearch.userLocation;
+  const recencyDays = options.recency_days ?? webSearch.recencyDays;
+
+  // Domain filters are only supported by the GA web_search tool
+  const tool: Record<string, unknown> = {
+    type: policy.allowed.length > 0 ? "web_search" : "web_search_preview",
+    search_context_size: webSearch.contextSize || 'medium',
+  };
+  if (policy.allowed.length > 0) {
+    tool.filters = { allowed_domains: policy.allowed };
+  }
+  if (userLocation) {
+    tool.user_location = { type: "approximate", ...userLocation };
+  }
+
+  const hints: string[] = [];
+  if (policy.blocked.length > 0) {
+    hints.push(`Do not use or cite sources from these domains: ${policy.blocked.join(', ')}.`);
+  }
+  if (recencyDays) {
+    hints.push(`Prefer sources published within the last ${recencyDays} days and state publication dates when relevant.`);
+  }
+
+  return { tool, hints, policy };
+}
+
+// ============================================================================
+// Structured Output
+// ============================================================================
+
+// The model's answer still did not match output_schema after the retry
+class OutputSchemaError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'OutputSchemaError';
+  }
+}
+
+// Compile a caller-supplied JSON Schema, rejecting schemas Ajv cannot compile.
+// Each call gets its own Ajv instance: a shared one keeps every schema for the
+// life of the process and rejects a second schema with the same $id.
+function compileOutputSchema(schema: Record<string, unknown>): ValidateFunction {
+  try {
+    return new Ajv({ allErrors: true, strict: false }).compile(schema);
+  } catch (error) {
+    throw new ValidationError(`Invalid output_schema: ${error instanceof Error ? error.message : error}`);
+  }
+}
+
+// Responses API text format asking the model for JSON matching the schema.
+// strict is off because strict mode only accepts a subset of JSON Schema;
+// the answer is validated locally instead.
+function jsonSchemaFormat(schema: Record<string, unknown>) {
+  return {
+    format: {
+      type: "json_schema",
+      name: "output",
+      schema,
+      strict: false,
+    },
+  };
+}
+
+function formatSchemaErrors(errors: ErrorObject[] | null | undefined): string {
+  return (errors ?? [])
+    .map(error => `${error.instancePath || '(root)'} ${error.message}`)
+    .join('; ');
+}
+
+// Parse the answer text as JSON and validate it against the schema
+function parseStructuredOutput(
+  text: string,
+  validate: ValidateFunction,
+): { success: true; data: unknown } | { success: false; errors: string } {
+  let data: unknown;
+  try {
+    data = JSON.parse(text);
+  } catch (error) {
+    return { success: false, errors: `answer is not valid JSON (${error instanceof Error ? error.message : error})` };
+  }
+
+  if (!validate(data)) {
+    return { success: false, errors: formatSchemaErrors(validate.errors) };
+  }
+  return { success: true, data };
+}
+
+// ============================================================================
+// Local Attachments
+// ============================================================================
+
+interface Attachment {
+  path: string;
+  content: string;
+}
+
+interface SkippedAttachment {
+  path: string;
+  reason: string;
+}
+
+// Directories never attached, whether or not .gitignore lists them
+const ALWAYS_IGNORED = ['.git/', 'node_modules/'];
+
+const attachmentLimits = {
+  maxFiles: parseInt(process.env.ATTACHMENT_MAX_FILES || '') || 50,
+  maxFileBytes: parseInt(process.env.ATTACHMENT_MAX_FILE_BYTES || '') || 200_000,
+  maxTotalBytes: parseInt(process.env.ATTACHMENT_MAX_TOTAL_BYTES || '') || 1_000_000,
+};
+
+// Root that files/globs are resolved against; attachments are disabled without one
+function workspaceRoot(): string | undefined {
+  const variable = process.env.WORKSPACE_ROOT ? 'WORKSPACE_ROOT' : 'CLIENT_CWD';
+  const root = process.env[variable];
+  if (!root) {
+    return undefined;
+  }
+  try {
+    return fs.realpathSync(path.resolve(root));
+  } catch {
+    throw new ValidationError(`Workspace root "${root}" (${variable}) does not exist on the server.`);
+  }
+}
+
+// Whether a path relative to the workspace root leaves it. Compares path
+// segments, so names such as "..env.example" stay inside.
+function isOutsideRoot(relative: string): boolean {
+  return path.isAbsolute(relative) || relative.split(path.sep)[0] === '..';
+}
+
+// Check a "/"-separated path relative to the root against ALWAYS_IGNORED and
+// the .gitignore files of the root and every directory on the way to it.
+// Patterns are relative to their own .gitignore's directory, and a deeper
+// file's negation ("!pattern") overrides a shallower match, as in git.
+function loadGitignore(root: string): (relativePath: string) => boolean {
+  const alwaysIgnored = ignore().add(ALWAYS_IGNORED);
+  const matchers = new Map<string, Ignore | undefined>();
+
+  const matcherFor = (dir: string) => {
+    if (!matchers.has(dir)) {
+      try {
+        matchers.set(dir, ignore().add(fs.readFileSync(path.join(root, dir, '.gitignore'), 'utf-8')));
+      } catch {
+        // No .gitignore in this directory
+        matchers.set(dir, undefined);
+      }
+    }
+    return matchers.get(dir);
+  };
+
+  return relativePath => {
+    if (alwaysIgnored.ignores(relativePath)) {
+      return true;
+    }
+    const parts = relativePath.split('/');
+    let ignored = false;
+    for (let depth = 0; depth < parts.length; depth++) {
+      const result = matcherFor(parts.slice(0, depth).join('/'))?.test(parts.slice(depth).join('/'));
+      if (result?.ignored) {
+        ignored = true;
+      } else if (result?.unignored) {
+        ignored = false;
+      }
+    }
+    return ignored;
+  };
+}
+
+// Heuristic used by git: a NUL byte in the first 8000 bytes means binary
+function isBinary(buffer: Buffer): boolean {
+  return buffer.subarray(0, 8000).includes(0);
+}
+
+// Resolve explicit file paths and glob patterns inside the workspace root.
+// Paths that escape the root (including through symlinks) are rejected;
+// ignored, binary, oversized or missing files are skipped with a reason.
+async function resolveAttachments(
+  files: string[],
+  globs: string[],
+): Promise<{ attachments: Attachment[]; skipped: SkippedAttachment[] }> {
+  const root = workspaceRoot();
+  if (!root) {
+    throw new ValidationError('Local file attachments are disabled: set WORKSPACE_ROOT (or CLIENT_CWD) on the server.');
+  }
+
+  const isIgnored = loadGitignore(root);
+  const skipped: SkippedAttachment[] = [];
+  const candidates = new Set<string>();
+
+  for (const file of files) {
+    const absolute = path.resolve(root, file);
+    const relative = path.relative(root, absolute);
+    if (isOutsideRoot(relative)) {
+      throw new ValidationError(`File "${file}" is outside the workspace root.`);
+    }
+    if (relative === '' || fs.statSync(absolute, { throwIfNoEntry: false })?.isDirectory()) {
+      const example = relative ? `${relative.split(path.sep).join('/')}/**/*.ts` : '**/*.ts';
+      throw new ValidationError(`"${file}" is a directory, not a file. Use globs (e.g. "${example}") to attach files under it.`);
+    }
+    candidates.add(relative);
+  }
+
+  for (const pattern of globs) {
+    if (path.isAbsolute(pattern) || pattern.split(/[\\/]/).includes('..')) {
+      throw new ValidationError(`Glob "${pattern}" must be relative to the workspace root and must not contain "..".`);
+    }
+    const matches = await fg(pattern, {
+      cwd: root,
+      onlyFiles: true,
+      dot: false,
+      followSymbolicLinks: false,
+      ignore: ALWAYS_IGNORED.map(dir => `**/${dir}**`),
+    });
+    matches.forEach(match => candidates.add(path.normalize(match)));
+  }
+
+  const attachments: Attachment[] = [];
+  let totalBytes = 0;
+
+  for (const relative of [...candidates].sort()) {
+    const displayPath = relative.split(path.sep).join('/');
+
+    if (isIgnored(displayPath)) {
+      skipped.push({ path: displayPath, reason: 'ignored by .gitignore' });
+      continue;
+    }
+
+    let realPath: string;
+    try {
+      realPath = fs.realpathSync(path.join(root, relative));
+    } catch {
+      skipped.push({ path: displayPath, reason: 'not found' });
+      continue;
+    }
+    if (isOutsideRoot(path.relative(root, realPath))) {
+      throw new ValidationError(`File "${displayPath}" resolves outside the workspace root.`);
+    }
+
+    const stat = fs.statSync(realPath);
+    if (!stat.isFile()) {
+      skipped.push({ path: displayPath, reason: 'not a regular file' });
+      continue;
+    }
+    if (stat.size > attachmentLimits.maxFileBytes) {
+      skipped.push({ path: displayPath, reason: `larger than ${attachmentLimits.maxFileBytes} bytes` });
+      continue;
+    }
+
+    const buffer = fs.readFileSync(realPath);
+    if (isBinary(buffer)) {
+      skipped.push({ path: displayPath, reason: 'binary file' });
+      continue;
+    }
+
+    if (attachments.length >= attachmentLimits.maxFiles) {
+      throw new ValidationError(`Too many files: at most ${attachmentLimits.maxFiles} can be attached. Narrow files/globs.`);
+    }
+    totalBytes += buffer.length;
+    if (totalBytes > attachmentLimits.maxTotalBytes) {
+      throw new ValidationError(`Attachments exceed ${attachmentLimits.maxTotalBytes} bytes in total. Narrow files/globs.`);
+    }
+
+    attachments.push({ path: displayPath, content: buffer.toString('utf-8') });
+  }
+
+  return { attachments, skipped };
+}
+
+// Pack attachments and media into the Responses API input as labeled blocks
+// followed by the question; plain string input is kept when there is nothing
+// to attach
+function packInput(
+  input: string,
+  attachments: Attachment[],
+  media: MediaInput[] = [],
+): string | Record<string, unknown>[] {
+  if (attachments.length === 0 && media.length === 0) {
+    return input;
+  }
+
+  return [
+    {
+      role: 'user',
+      content: [
+        ...attachments.map(attachment => ({
+          type: 'input_text',
+          text: `<file path="${attachment.path}">\n${attachment.content}\n</file>`,
+        })),
+        ...media.map(mediaInputPart),
+        { type: 'input_text', text: input },
+      ],
+    },
+  ];
+}
+
+// ============================================================================
+// Media Inputs
+// ============================================================================
+
+// An image or PDF given as MCP image content ({ data, mimeType }), raw base64
+// or a data: URL, or a path under the workspace root
+const MediaInputSchema = z.object({
+  path: z.string().optional().describe('Path of an image or PDF, relative to the server\'s workspace root.'),
+  data: z.string().optional().describe('Base64 content or a data: URL.'),
+  mimeType: z.string().optional().describe('Declared MIME type; must match the sniffed content type.'),
+  filename: z.string().optional().describe('File name shown to the model for PDFs.'),
+}).refine(value => Boolean(value.path) !== Boolean(value.data), {
+  message: 'Provide exactly one of path or data.',
+});
+
+type MediaInputArg = z.infer<typeof MediaInputSchema>;
+
+type MediaKind = 'image' | 'pdf';
+
+interface MediaInput {
+  kind: MediaKind;
+  mimeType: string;
+  filename: string;
+  source: string;
+  bytes: number;
+  base64: string;
+}
+
+const mediaLimits = {
+  maxItems: parseInt(process.env.MEDIA_MAX_ITEMS || '') || 10,
+  maxImageBytes: parseInt(process.env.MEDIA_MAX_IMAGE_BYTES || '') || 20_000_000,
+  maxPdfBytes: parseInt(process.env.MEDIA_MAX_PDF_BYTES || '') || 32_000_000,
+};
+
+// Magic numbers of the formats the Responses API accepts
+const MEDIA_SIGNATURES: { mimeType: string; kind: MediaKind; matches: (buffer: Buffer) => boolean }[] = [
+  { mimeType: 'image/png', kind: 'image', matches: b => b.subarray(0, 8).equals(Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a])) },
+  { mimeType: 'image/jpeg', kind: 'image', matches: b => b.subarray(0, 3).equals(Buffer.from([0xff, 0xd8, 0xff])) },
+  { mimeType: 'image/gif', kind: 'image', matches: b => ['GIF87a', 'GIF89a'].includes(b.subarray(0, 6).toString('latin1')) },
+  { mimeType: 'image/webp', kind: 'image', matches: b => b.subarray(0, 4).toString('latin1') === 'RIFF' && b.subarray(8, 12).toString('latin1') === 'WEBP' },
+  { mimeType: 'application/pdf', kind: 'pdf', matches: b => b.subarray(0, 5).toString('latin1') === '%PDF-' },
+];
+
+// Detect the content type from the leading bytes, ignoring any declared type
+function sniffMediaType(buffer: Buffer): { mimeType: string; kind: MediaKind } | undefined {
+  const signature = MEDIA_SIGNATURES.find(candidate => candidate.matches(buffer));
+  return signature ? { mimeType: signature.mimeType, kind: signature.kind } : undefined;
+}
+
+// Decode raw base64 or a data: URL; the URL's MIME type counts as declared
+function decodeMediaData(data: string): { buffer: Buffer; declaredType?: string } {
+  const dataUrl = data.match(/^data:([^;,]+)?(?:;[^,]*)?;base64,(.*)$/s);
+  const base64 = (dataUrl ? dataUrl[2] : data).replace(/\s+/g, '');
+  if (!/^[A-Za-z0-9+/]*={0,2}$/.test(base64)) {
+    throw new ValidationError('Media data is not valid base64.');
+  }
+  return { buffer: Buffer.from(base64, 'base64'), declaredType: dataUrl?.[1] };
+}
+
+// Resolve a path inside the workspace root, following symlinks
+function resolveWorkspaceFile(file: string): string {
+  const root = workspaceRoot();
+  if (!root) {
+    throw new ValidationError('Local media paths are disabled: set WORKSPACE_ROOT (or CLIENT_CWD) on the server, or pass data instead.');
+  }
+  let realPath: string;
+  try {
+    realPath = fs.realpathSync(path.resolve(root, file));
+  } catch {
+    throw new ValidationError(`File "${file}" not found.`);
+  }
+  if (isOutsideRoot(path.relative(root, realPath))) {
+    throw new ValidationError(`File "${file}" is outside the workspace root.`);
+  }
+  return realPath;
+}
+
+// Load, sniff and size-check images and PDFs. Unlike text attachments, a bad
+// item fails the whole call: the question usually depends on it.
+function resolveMedia(items: MediaInputArg[]): MediaInput[] {
+  if (items.length > mediaLimits.maxItems) {
+    throw new ValidationError(`Too many media items: at most ${mediaLimits.maxItems} can be attached.`);
+  }
+
+  return items.map((item, index) => {
+    let buffer: Buffer;
+    let declaredType = item.mimeType;
+    let source: string;
+
+    if (item.path) {
+      const realPath = resolveWorkspaceFile(item.path);
+      const maxBytes = Math.max(mediaLimits.maxImageBytes, mediaLimits.maxPdfBytes);
+      const stat = fs.statSync(realPath);
+      if (!stat.isFile()) {
+        throw new ValidationError(`Media "${item.path}" is not a regular file.`);
+      }
+      if (stat.size > maxBytes) {
+        throw new ValidationError(`Media "${item.path}" is larger than ${maxBytes} bytes.`);
+      }
+      buffer = fs.readFileSync(realPath);
+      source = item.path;
+    } else {
+      const decoded = decodeMediaData(item.data!);
+      buffer = decoded.buffer;
+      declaredType = declaredType ?? decoded.declaredType;
+      source = `media[${index}]`;
+    }
+
+    const sniffed = sniffMediaType(buffer);
+    if (!sniffed) {
+      throw new ValidationError(`Media "${source}" is not a supported type (PNG, JPEG, GIF, WebP or PDF).`);
+    }
+    if (declaredType && declaredType.toLowerCase().replace('image/jpg', 'image/jpeg') !== sniffed.mimeType) {
+      throw new ValidationError(`Media "${source}" is declared as ${declaredType} but its content is ${sniffed.mimeType}.`);
+    }
+
+    const maxBytes = sniffed.kind === 'pdf' ? mediaLimits.maxPdfBytes : mediaLimits.maxImageBytes;
+    if (buffer.length > maxBytes) {
+      throw new ValidationError(`Media "${source}" is larger than ${maxBytes} bytes.`);
+    }
+
+    const extension = sniffed.mimeType.split('/')[1];
+    return {
+      kind: sniffed.kind,
+      mimeType: sniffed.mimeType,
+      filename: item.filename ?? (item.path ? path.basename(item.path) : `media-${index + 1}.${extension}`),
+      source,
+      bytes: buffer.length,
+      base64: buffer.toString('base64'),
+    };
+  });
+}
+
+// Responses API content part for an image or PDF
+function mediaInputPart(media: MediaInput): Record<string, unknown> {
+  const dataUrl = `data:${media.mimeType};base64,${media.base64}`;
+  return media.kind === 'pdf'
+    ? { type: 'input_file', filename: media.filename, file_data: dataUrl }
+    : { type: 'input_image', image_url: dataUrl, detail: 'auto' };
+}
+
+// ============================================================================
+// Streaming
+// ============================================================================
+
+// Minimal shape of a Responses API stream event; only the fields we read are typed
+interface ResponseStreamEvent {
+  type: string;
+  [key: string]: any;
+}
+
+// Sends a progress message to the client; resolves even if the notification fails
+type ProgressReporter = (message: string) => Promise<void>;
+
+// Minimum interval between partial-text progress notifications
+const TEXT_PROGRESS_INTERVAL_MS = 1000;
+
+// Number of trailing characters of partial text included in a progress message
+const TEXT_PROGRESS_TAIL_CHARS = 200;
+
+// Create a reporter that emits notifications/progress when the client sent a progressToken
+function createProgressReporter(
+  extra: RequestHandlerExtra<ServerRequest, ServerNotification>
+): ProgressReporter {
+  const progressToken = extra._meta?.progressToken;
+  let progress = 0;
+
+  return async (message: string) => {
+    if (progressToken === undefined) {
+      return;
+    }
+
+    progress++;
+    try {
+      await extra.sendNotification({
+        method: "notifications/progress",
+        params: { progressToken, progress, message },
+      });
+    } catch (error) {
+      console.error("Failed to send progress notification:", error);
+    }
+  };
+}
+
+// Codes of failed responses and stream errors that mean the API itself failed,
+// not the request; only these count as retryable outages
+const SERVER_ERROR_CODES = ['server_error', 'vector_store_timeout'];
+
+// HTTP status for a failure reported inside a response or event stream, which
+// carries only an error code. A failure without a code counts as a server error.
+function failureStatus(code: string | undefined): number {
+  if (!code || SERVER_ERROR_CODES.includes(code)) {
+    return 500;
+  }
+  return code === 'rate_limit_exceeded' ? 429 : 400;
+}
+
+// The error of a response with status "failed"
+function responseFailure(response: any): HttpError {
+  const error = response?.error;
+  return new HttpError(
+    `OpenAI API error: ${error?.message || 'Response failed'}`,
+    failureStatus(error?.code),
+    response,
+    undefined,
+    undefined,
+    error?.code,
+  );
+}
+
+// Consume a Responses API event stream, reporting reasoning, web search and
+// output text progress, and return the final response object
+async function consumeResponseStream(
+  stream: AsyncIterable<ResponseStreamEvent>,
+  reportProgress: ProgressReporter,
+  now: () => number = Date.now,
+): Promise<any> {
+  let partialText = '';
+  let lastTextProgressAt = 0;
+
+  for await (const event of stream) {
+    switch (event.type) {
+      case 'response.created':
+        await reportProgress('Request accepted by the model');
+        break;
+
+      case 'response.output_item.added':
+        if (event.item?.type === 'reasoning') {
+          await reportProgress('Reasoning...');
+        } else if (event.item?.type === 'message') {
+          await reportProgress('Writing answer...');
+        }
+        break;
+
+      case 'response.reasoning_summary_text.done':
+        await reportProgress(`Reasoning: ${event.text}`);
+        break;
+
+      case 'response.web_search_call.searching':
+        await reportProgress('Searching the web...');
+        break;
+
+      case 'response.output_item.done':
+        if (event.item?.type === 'web_search_call') {
+          const query = event.item.action?.query;
+          await reportProgress(query ? `Searched the web: ${query}` : 'Web search completed');
+        }
+        break;
+
+      case 'response.output_text.delta': {
+        partialText += event.delta ?? '';
+        const timestamp = now();
+        if (timestamp - lastTextProgressAt >= TEXT_PROGRESS_INTERVAL_MS) {
+          lastTextProgressAt = timestamp;
+          await reportProgress(`Answer so far (${partialText.length} chars): ...${partialText.slice(-TEXT_PROGRESS_TAIL_CHARS)}`);
+        }
+        break;
+      }
+
+      case 'response.completed':
+      case 'response.incomplete':
+        return event.response;
+
+      case 'response.failed':
+        throw responseFailure(event.response);
+
+      case 'error':
+        throw new HttpError(
+          `OpenAI API error: ${event.message || 'Stream error'}`,
+          failureStatus(event.code ?? undefined),
+          event,
+          undefined,
+          undefined,
+          event.code,
+        );
+    }
+  }
+
+  throw new Error('Response stream ended before the response completed');
+}
+
+// ============================================================================
+// Sessions
+// ============================================================================
+
+// Client that sessions, jobs and saved outputs belong to: the bearer token's
+// client id over authenticated HTTP, else the MCP session. A stdio server has
+// a single client.
+function clientOf(extra: { authInfo?: { clientId: string }; sessionId?: string }): string {
+  return extra.authInfo?.clientId ?? extra.sessionId ?? 'local';
+}
+
+// Records written before clients were told apart belong to the stdio client
+function isOwnedBy(record: { owner?: string }, owner: string): boolean {
+  return (record.owner ?? 'local') === owner;
+}
+
+interface Session {
+  id: string;
+  owner: string;
+  tool: string;
+  lastResponseId: string;
+  turns: number;
+  createdAt: number;
+  updatedAt: number;
+}
+
+// In-memory store mapping session ids to the last response id in the thread.
+// Session ids are chosen by clients, so each client has its own set. Entries
+// expire after ttlMs of inactivity; the least recently used entry is evicted
+// once maxSessions is reached.
+class SessionStore {
+  // Keyed by owner and id; map iteration order doubles as LRU order (oldest first)
+  private sessions = new Map<string, Session>();
+
+  constructor(
+    private ttlMs: number,
+    private maxSessions: number,
+    private now: () => number = Date.now,
+  ) {}
+
+  get(owner: string, id: string): Session | undefined {
+    this.evictExpired();
+    const key = sessionKey(owner, id);
+    const session = this.sessions.get(key);
+    if (session) {
+      // Refresh LRU position
+      this.sessions.delete(key);
+      this.sessions.set(key, session);
+    }
+    return session;
+  }
+
+  record(owner: string, id: string, tool: string, responseId: string): Session {
+    this.evictExpired();
+    const timestamp = this.now();
+    const key = sessionKey(owner, id);
+    const existing = this.sessions.get(key);
+    const session: Session = {
+      id,
+      owner,
+      tool,
+      lastResponseId: responseId,
+      turns: (existing?.turns ?? 0) + 1,
+      createdAt: existing?.createdAt ?? timestamp,
+      updatedAt: timestamp,
+    };
+
+    this.sessions.delete(key);
+    this.sessions.set(key, session);
+
+    while (this.sessions.size > this.maxSessions) {
+      const oldest = this.sessions.keys().next().value as string;
+      this.sessions.delete(oldest);
+    }
+
+    return session;
+  }
+
+  delete(owner: string, id: string): boolean {
+    return this.sessions.delete(sessionKey(owner, id));
+  }
+
+  list(owner: string): Session[] {
+    this.evictExpired();
+    return [...this.sessions.values()].filter(session => session.owner === owner).reverse();
+  }
+
+  private evictExpired(): void {
+    const cutoff = this.now() - this.ttlMs;
+    for (const [key, session] of this.sessions) {
+      if (session.updatedAt < cutoff) {
+        this.sessions.delete(key);
+      }
+    }
+  }
+}
+
+function sessionKey(owner: string, id: string): string {
+  return `${owner}\n${id}`;
+}
+
+const sessions = new SessionStore(
+  (parseInt(process.env.SESSION_TTL_MINUTES || '') || 60) * 60 * 1000,
+  parseInt(process.env.MAX_SESSIONS || '') || 100,
+);
+
+// ============================================================================
+// Response Cache
+// ============================================================================
+
+interface CacheEntry {
+  response: any;
+  createdAt: number;
+}
+
+// Storage backend for cached responses; entries past their TTL are treated as misses
+interface CacheStore {
+  kind: string;
+  get(key: string): Promise<CacheEntry | undefined>;
+  set(key: string, entry: CacheEntry): Promise<void>;
+  delete(key: string): Promise<void>;
+  // Remove entries created before `cutoff` (ms since epoch); returns how many
+  prune(cutoff: number): Promise<number>;
+  clear(): Promise<number>;
+  size(): Promise<number>;
+}
+
+// In-memory store, evicting the oldest entry once maxEntries is reached
+class MemoryCacheStore implements CacheStore {
+  kind = 'memory';
+  private entries = new Map<string, CacheEntry>();
+
+  constructor(private maxEntries: number) {}
+
+  async get(key: string) {
+    return this.entries.get(key);
+  }
+
+  async set(key: string, entry: CacheEntry) {
+    this.entries.delete(key);
+    this.entries.set(key, entry);
+    while (this.entries.size > this.maxEntries) {
+      this.entries.delete(this.entries.keys().next().value as string);
+    }
+  }
+
+  async delete(key: string) {
+    this.entries.delete(key);
+  }
+
+  async prune(cutoff: number) {
+    let count = 0;
+    for (const [key, entry] of this.entries) {
+      if (entry.createdAt < cutoff) {
+        this.entries.delete(key);
+        count++;
+      }
+    }
+    return count;
+  }
+
+  async clear() {
+    const count = this.entries.size;
+    this.entries.clear();
+    return count;
+  }
+
+  async size() {
+    return this.entries.size;
+  }
+}
+
+// File-backed store: one JSON file per key, so the cache survives restarts
+class FileCacheStore implements CacheStore {
+  kind = 'file';
+
+  constructor(private dir: string) {}
+
+  private filePath(key: string) {
+    return path.join(this.dir, `${key}.json`);
+  }
+
+  async get(key: string) {
+    try {
+      return JSON.parse(await fs.promises.readFile(this.filePath(key), 'utf-8')) as CacheEntry;
+    } catch {
+      return undefined;
+    }
+  }
+
+  async set(key: string, entry: CacheEntry) {
+    await fs.promises.mkdir(this.dir, { recursive: true });
+    await fs.promises.writeFile(this.filePath(key), JSON.stringify(entry), 'utf-8');
+  }
+
+  async delete(key: string) {
+    await fs.promises.rm(this.filePath(key), { force: true });
+  }
+
+  // Files are written once per entry, so their mtime is the entry's createdAt
+  async prune(cutoff: number) {
+    let count = 0;
+    for (const file of await this.cacheFiles()) {
+      const filePath = path.join(this.dir, file);
+      try {
+        if ((await fs.promises.stat(filePath)).mtimeMs < cutoff) {
+          await fs.promises.rm(filePath, { force: true });
+          count++;
+        }
+      } catch {
+        // Removed concurrently, e.g. by cache_clear
+      }
+    }
+    return count;
+  }
+
+  async clear() {
+    const files = await this.cacheFiles();
+    await Promise.all(files.map(file => fs.promises.rm(path.join(this.dir, file), { force: true })));
+    return files.length;
+  }
+
+  async size() {
+    return (await this.cacheFiles()).length;
+  }
+
+  private async cacheFiles() {
+    try {
+      return (await fs.promises.readdir(this.dir)).filter(file => file.endsWith('.json'));
+    } catch {
+      return [];
+    }
+  }
+}
+
+// JSON.stringify with sorted object keys, so equal params always hash the same
+function stableStringify(value: unknown): string {
+  if (Array.isArray(value)) {
+    return `[${value.map(stableStringify).join(',')}]`;
+  }
+  if (value && typeof value === 'object') {
+    const entries = Object.entries(value)
+      .filter(([, v]) => v !== undefined)
+      .sort(([a], [b]) => a.localeCompare(b));
+    return `{${entries.map(([k, v]) => `${JSON.stringify(k)}:${stableStringify(v)}`).join(',')}}`;
+  }
+  return JSON.stringify(value);
+}
+
+class ResponseCache {
+  hits = 0;
+  misses = 0;
+  private prunedAt = 0;
+
+  constructor(public store: CacheStore, public ttlMs: number) {}
+
+  // Key on the provider plus the full request (model, effort, search settings,
+  // instructions, ...), with whitespace-normalized input
+  key(providerName: string, params: Record<string, any>): string {
+    const normalized = {
+      ...params,
+      input: typeof params.input === 'string' ? params.input.trim().replace(/\s+/g, ' ') : params.input,
+    };
+    return createHash('sha256').update(stableStringify({ provider: providerName, params: normalized })).digest('hex');
+  }
+
+  async get(key: string): Promise<CacheEntry | undefined> {
+    const entry = await this.store.get(key);
+    if (entry && Date.now() - entry.createdAt <= this.ttlMs) {
+      this.hits++;
+      return entry;
+    }
+    this.misses++;
+    if (entry) {
+      await this.store.delete(key).catch(() => undefined);
+    }
+    return undefined;
+  }
+
+  // Also drops expired entries, at most once per TTL period, so the file
+  // store does not grow without bound
+  async set(key: string, response: any): Promise<void> {
+    try {
+      await this.store.set(key, { response, createdAt: Date.now() });
+      if (Date.now() - this.prunedAt >= this.ttlMs) {
+        this.prunedAt = Date.now();
+        await this.store.prune(this.prunedAt - this.ttlMs);
+      }
+    } catch (error) {
+      // A cache write failure must never fail the tool call
+      console.error("Failed to write response cache:", error);
+    }
+  }
+}
+
+// Create the response cache from CACHE (memory | file | off), or undefined when
+// disabled. Off by default: cached search answers can be up to a TTL old.
+function createResponseCache(): ResponseCache | undefined {
+  const kind = process.env.CACHE || 'off';
+  const ttlMs = (parseInt(process.env.CACHE_TTL_MINUTES || '') || 60) * 60 * 1000;
+
+  switch (kind) {
+    case 'off':
+      return undefined;
+    case 'file':
+      return new ResponseCache(
+        new FileCacheStore(process.env.CACHE_DIR || path.join(os.homedir(), '.cache', 'gpt5-search-mcp')),
+        ttlMs,
+      );
+    case 'memory':
+      return new ResponseCache(new MemoryCacheStore(parseInt(process.env.CACHE_MAX_ENTRIES || '') || 500), ttlMs);
+    default:
+      return undefined;
+  }
+}
+
+const responseCache = createResponseCache();
+
+// ============================================================================
+// Usage & Budgets
+// ============================================================================
+
+// USD per 1M tokens; reasoning tokens are billed as output tokens
+const ModelPrice = z.object({
+  input: z.number().nonnegative(),
+  cachedInput: z.number().nonnegative().optional(),
+  output: z.number().nonnegative(),
+});
+
+type ModelPrice = z.infer<typeof ModelPrice>;
+
+const defaultModelPrices: Record<string, ModelPrice> = {
+  'gpt-5': { input: 1.25, cachedInput: 0.125, output: 10 },
+  'gpt-5-mini': { input: 0.25, cachedInput: 0.025, output: 2 },
+  'gpt-5-nano': { input: 0.05, cachedInput: 0.005, output: 0.4 },
+  'gpt-5-pro': { input: 15, output: 120 },
+  'gpt-5.2': { input: 1.75, cachedInput: 0.175, output: 14 },
+};
+
+// Merge MODEL_PRICES (a JSON object of model -> price) over the defaults
+function loadModelPrices(): Record<string, ModelPrice> {
+  if (!process.env.MODEL_PRICES) {
+    return defaultModelPrices;
+  }
+
+  let overrides: unknown;
+  try {
+    overrides = JSON.parse(process.env.MODEL_PRICES);
+  } catch (error) {
+    throw new ConfigError(`Cannot parse MODEL_PRICES: ${error instanceof Error ? error.message : error}`);
+  }
+
+  const parsed = z.record(ModelPrice).safeParse(overrides);
+  if (!parsed.success) {
+    throw new ConfigError(`Invalid MODEL_PRICES:\n${formatIssues(parsed.error)}`);
+  }
+  return { ...defaultModelPrices, ...parsed.data };
+}
+
+class BudgetExceededError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'BudgetExceededError';
+  }
+}
+
+interface UsageRecord {
+  // MCP session the call was made in, see usageSessionOf()
+  session: string;
+  tool: string;
+  model: string;
+  inputTokens: number;
+  outputTokens: number;
+  reasoningTokens: number;
+  costUsd: number;
+  priced: boolean;
+  timestamp: number;
+}
+
+interface UsageTotals {
+  calls: number;
+  input_tokens: number;
+  output_tokens: number;
+  reasoning_tokens: number;
+  cost_usd: number;
+}
+
+// MCP session that usage is counted against for SESSION_BUDGET_USD. A stdio
+// server has one session, for as long as the process runs.
+function usageSessionOf(extra: { sessionId?: string }): string {
+  return extra.sessionId ?? 'local';
+}
+
+// Records token usage per tool call, prices it, and enforces the daily (UTC)
+// spending budget for the server and the budget for each MCP session
+class UsageLedger {
+  private records: UsageRecord[] = [];
+  // When each MCP session was first seen
+  private sessionStarts = new Map<string, number>();
+
+  constructor(
+    private prices: Record<string, ModelPrice>,
+    private dailyBudgetUsd: number | undefined,
+    private sessionBudgetUsd: number | undefined,
+    private now: () => number = Date.now,
+  ) {}
+
+  // Price lookup by longest matching prefix, so dated snapshots
+  // (e.g. gpt-5-2025-08-07) use their base model's price
+  priceFor(model: string): ModelPrice | undefined {
+    const match = Object.keys(this.prices)
+      .filter(name => model === name || model.startsWith(`${name}-`))
+      .sort((a, b) => b.length - a.length)[0];
+    return match ? this.prices[match] : undefined;
+  }
+
+  record(session: string, tool: string, model: string, usage: GPT5Usage): UsageRecord {
+    this.sessionStart(session);
+    const price = this.priceFor(model);
+    const cachedTokens = usage.input_tokens_details?.cached_tokens ?? 0;
+    const costUsd = price
+      ? ((usage.input_tokens - cachedTokens) * price.input
+        + cachedTokens * (price.cachedInput ?? price.input)
+        + usage.output_tokens * price.output) / 1_000_000
+      : 0;
+
+    const record: UsageRecord = {
+      session,
+      tool,
+      model,
+      inputTokens: usage.input_tokens,
+      outputTokens: usage.output_tokens,
+      reasoningTokens: usage.output_tokens_details?.reasoning_tokens ?? 0,
+      costUsd,
+      priced: Boolean(price),
+      timestamp: this.now(),
+    };
+    this.records.push(record);
+    return record;
+  }
+
+  // Throw if the daily budget or the session's budget has already been used up
+  checkBudget(session: string): void {
+    const daily = this.totals(this.todaysRecords()).cost_usd;
+    if (this.dailyBudgetUsd !== undefined && daily >= this.dailyBudgetUsd) {
+      throw new BudgetExceededError(`Daily budget exceeded: spent $${daily.toFixed(4)} of $${this.dailyBudgetUsd.toFixed(2)} today (UTC). New calls are refused until tomorrow.`);
+    }
+
+    const spent = this.totals(this.sessionRecords(session)).cost_usd;
+    if (this.sessionBudgetUsd !== undefined && spent >= this.sessionBudgetUsd) {
+      throw new BudgetExceededError(`Session budget exceeded: spent $${spent.toFixed(4)} of $${this.sessionBudgetUsd.toFixed(2)} in this MCP session. Start a new session or raise SESSION_BUDGET_USD.`);
+    }
+  }
+
+  // Usage of one MCP session and of the whole server today, by tool and model
+  report(session: string) {
+    const groupBy = (key: 'tool' | 'model') => {
+      const groups: Record<string, UsageTotals> = {};
+      for (const record of this.records) {
+        groups[record[key]] = this.totals(this.records.filter(r => r[key] === record[key]));
+      }
+      return groups;
+    };
+
+    return {
+      session: {
+        started_at: new Date(this.sessionStart(session)).toISOString(),
+        ...this.totals(this.sessionRecords(session)),
+        budget_usd: this.sessionBudgetUsd ?? null,
+      },
+      today: {
+        ...this.totals(this.todaysRecords()),
+        budget_usd: this.dailyBudgetUsd ?? null,
+      },
+      by_tool: groupBy('tool'),
+      by_model: groupBy('model'),
+      unpriced_models: [...new Set(this.records.filter(r => !r.priced).map(r => r.model))],
+    };
+  }
+
+  private sessionStart(session: string): number {
+    if (!this.sessionStarts.has(session)) {
+      this.sessionStarts.set(session, this.now());
+    }
+    return this.sessionStarts.get(session)!;
+  }
+
+  private sessionRecords(session: string): UsageRecord[] {
+    return this.records.filter(r => r.session === session);
+  }
+
+  private todaysRecords(): UsageRecord[] {
+    const today = new Date(this.now()).toISOString().slice(0, 10);
+    return this.records.filter(r => new Date(r.timestamp).toISOString().slice(0, 10) === today);
+  }
+
+  private totals(records: UsageRecord[]): UsageTotals {
+    return records.reduce<UsageTotals>(
+      (totals, r) => ({
+        calls: totals.calls + 1,
+        input_tokens: totals.input_tokens + r.inputTokens,
+        output_tokens: totals.output_tokens + r.outputTokens,
+        reasoning_tokens: totals.reasoning_tokens + r.reasoningTokens,
+        cost_usd: totals.cost_usd + r.costUsd,
+      }),
+      { calls: 0, input_tokens: 0, output_tokens: 0, reasoning_tokens: 0, cost_usd: 0 },
+    );
+  }
+}
+
+// Combine the usage of all API calls made for one tool call
+function summarizeUsage(records: UsageRecord[]) {
+  if (records.length === 0) {
+    return undefined;
+  }
+
+  return {
+    model: records[records.length - 1].model,
+    api_calls: records.length,
+    input_tokens: records.reduce((sum, r) => sum + r.inputTokens, 0),
+    output_tokens: records.reduce((sum, r) => sum + r.outputTokens, 0),
+    reasoning_tokens: records.reduce((sum, r) => sum + r.reasoningTokens, 0),
+    cost_usd: records.reduce((sum, r) => sum + r.costUsd, 0),
+  };
+}
+
+// Parse an optional positive dollar amount from the environment
+function parseBudget(value: string | undefined): number | undefined {
+  const budget = parseFloat(value || '');
+  return budget > 0 ? budget : undefined;
+}
+
+// Created in main() so that a bad MODEL_PRICES is reported as a startup error
+let usageLedger: UsageLedger;
+
+// ============================================================================
+// Background Jobs
+// ============================================================================
+
+// A background response started with `submit`; the job id is the response id
+interface Job {
+  id: string;
+  // Client that submitted it, see clientOf()
+  owner?: string;
+  tool: string;
+  provider: string;
+  model: string;
+  status: string;
+  createdAt: number;
+  updatedAt: number;
+  // Final response, kept once the job has finished
+  response?: any;
+  usageRecorded?: boolean;
+}
+
+const FINISHED_JOB_STATUSES = ['completed', 'failed', 'cancelled', 'incomplete'];
+
+// A background job ended with an error. Its cause is the API's failure, but
+// asking for the result again cannot help; the job must be submitted again.
+class JobFailedError extends Error {
+  constructor(message: string, options?: ErrorOptions) {
+    super(message, options);
+    this.name = 'JobFailedError';
+  }
+}
+
+// Job registry persisted to a JSON file, so a restarted server can still
+// report on and return the results of earlier jobs
+class JobStore {
+  private jobs = new Map<string, Job>();
+
+  constructor(private filePath: string, private retentionMs: number) {
+    try {
+      const saved = JSON.parse(fs.readFileSync(filePath, 'utf-8')) as Job[];
+      for (const job of saved) {
+        this.jobs.set(job.id, job);
+      }
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code !== 'ENOENT') {
+        console.error(`Failed to load job state from ${filePath}:`, error);
+      }
+    }
+    this.prune();
+  }
+
+  // A job, if it exists and belongs to the client
+  get(id: string, owner: string): Job | undefined {
+    const job = this.jobs.get(id);
+    return job && isOwnedBy(job, owner) ? job : undefined;
+  }
+
+  list(owner: string): Job[] {
+    return [...this.jobs.values()].filter(job => isOwnedBy(job, owner)).sort((a, b) => b.createdAt - a.createdAt);
+  }
+
+  save(job: Job): void {
+    job.updatedAt = Date.now();
+    this.jobs.set(job.id, job);
+    this.prune();
+    try {
+      fs.mkdirSync(path.dirname(this.filePath), { recursive: true });
+      fs.writeFileSync(this.filePath, JSON.stringify([...this.jobs.values()]), 'utf-8');
+    } catch (error) {
+      console.error(`Failed to save job state to ${this.filePath}:`, error);
+    }
+  }
+
+  // Drop jobs not updated within the retention period
+  private prune(): void {
+    const cutoff = Date.now() - this.retentionMs;
+    for (const [id, job] of this.jobs) {
+      if (job.updatedAt < cutoff) {
+        this.jobs.delete(id);
+      }
+    }
+  }
+}
+
+// Created in main() so job state is only loaded when the server starts
+let jobs: JobStore;
+
+// Poll the provider for an unfinished job and persist its new state. Usage is
+// recorded once, the first time the job is seen finished, against the MCP
+// session that asked. The signal cancels the poll along with the MCP request.
+async function refreshJob(job: Job, { signal, sessionId }: { signal?: AbortSignal; sessionId?: string }): Promise<Job> {
+  if (!FINISHED_JOB_STATUSES.includes(job.status)) {
+    const provider = getProviderByName(job.provider);
+    const response = await withRetry(async attemptSignal => {
+      try {
+        return await provider.retrieveResponse(job.id, attemptSignal);
+      } catch (error) {
+        throw toHttpError(error);
+      }
+    }, { signal });
+
+    job.status = response.status;
+    if (FINISHED_JOB_STATUSES.includes(job.status)) {
+      job.response = response;
+    }
+    jobs.save(job);
+  }
+
+  if (job.response?.usage && !job.usageRecorded) {
+    usageLedger.record(usageSessionOf({ sessionId }), job.tool, job.response.model || job.model, job.response.usage);
+    job.usageRecorded = true;
+    jobs.save(job);
+  }
+
+  return job;
+}
+
+function jobSummary(job: Job) {
+  return {
+    job_id: job.id,
+    tool: job.tool,
+    model: job.model,
+    status: job.status,
+    created_at: new Date(job.createdAt).toISOString(),
+    updated_at: new Date(job.updatedAt).toISOString(),
+  };
+}
+
+// ============================================================================
+// Confirmation Gate
+// ============================================================================
+
+// How long a confirmation token from a dry run stays valid
+const CONFIRMATION_TTL_MS = 5 * 60 * 1000;
+
+// Rough output token counts per reasoning effort, used only for cost estimates
+const ESTIMATED_OUTPUT_TOKENS: Record<ReasoningEffort, number> = {
+  minimal: 1_000,
+  low: 4_000,
+  medium: 10_000,
+  high: 30_000,
+};
+
+// Arguments added to tools with requiresExplicitConfirmation
+const confirmationArgs = {
+  confirm: z.boolean().optional().describe('Set to true, together with confirmation_token, only after the user has explicitly approved this expensive call.'),
+  confirmation_token: z.string().optional().describe('Token returned by a previous unconfirmed call to this tool with the same arguments.'),
+};
+
+interface PendingConfirmation {
+  fingerprint: string;
+  expiresAt: number;
+}
+
+// Short-lived, single-use tokens binding a confirmation to one tool and request
+const pendingConfirmations = new Map<string, PendingConfirmation>();
+
+// Covers the resolved request (model, effort, output limit, search settings,
+// attachments, media, ...), so a token from a cheap dry run cannot approve a
+// more expensive call
+function confirmationFingerprint(name: string, params: Record<string, any>): string {
+  return createHash('sha256').update(`${name}\n${stableStringify(params)}`).digest('hex');
+}
+
+function logConfirmation(name: string, decision: string, details: Record<string, unknown> = {}) {
+  console.error(`[confirmation] ${JSON.stringify({ tool: name, decision, at: new Date().toISOString(), ...details })}`);
+}
+
+// Output token limit of a request, or a per-effort guess when it has none
+function estimatedOutputTokens(params: Record<string, any>): number {
+  const effort: ReasoningEffort = params.reasoning?.effort ?? 'medium';
+  return params.max_output_tokens ?? ESTIMATED_OUTPUT_TOKENS[effort];
+}
+
+// Upper-bound style estimate in USD of a resolved request: its estimated input
+// tokens (text, attachments and media) plus its output tokens. Undefined when
+// the model has no configured price.
+function estimateCostUsd(params: Record<string, any>): number | undefined {
+  const price = usageLedger.priceFor(params.model);
+  if (!price) {
+    return undefined;
+  }
+  return (estimateInputTokens(params) * price.input + estimatedOutputTokens(params) * price.output) / 1_000_000;
+}
+
+function estimateCost(params: Record<string, any>): string {
+  const cost = estimateCostUsd(params);
+  if (cost === undefined) {
+    return `unknown (no price configured for ${params.model})`;
+  }
+  return `~$${cost.toFixed(2)} (about ${estimateInputTokens(params)} input and up to ${estimatedOutputTokens(params)} output tokens)`;
+}
+
+// Enforce requiresExplicitConfirmation. Returns undefined when the call may
+// proceed, or the result to return instead (a dry run or a refusal). The
+// user approves either through an MCP elicitation request, or by the agent
+// calling again with confirm: true and the token from a dry run.
+async function checkConfirmation(
+  server: McpServer,
+  name: string,
+  config: ToolConfig,
+  params: Record<string, any>,
+  args: { confirm?: boolean; confirmation_token?: string },
+) {
+  if (!config.requiresExplicitConfirmation) {
+    return undefined;
+  }
+
+  const fingerprint = confirmationFingerprint(name, params);
+  const estimate = estimateCost(params);
+
+  for (const [token, pending] of pendingConfirmations) {
+    if (pending.expiresAt < Date.now()) {
+      pendingConfirmations.delete(token);
+    }
+  }
+
+  if (args.confirm) {
+    const pending = args.confirmation_token ? pendingConfirmations.get(args.confirmation_token) : undefined;
+    if (!pending || pending.fingerprint !== fingerprint) {
+      logConfirmation(name, 'rejected', { reason: 'invalid or expired confirmation token' });
+      throw new ValidationError('Invalid or expired confirmation_token for this tool and these arguments. Call again without confirm to get a new token.');
+    }
+    pendingConfirmations.delete(args.confirmation_token!);
+    logConfirmation(name, 'approved', { via: 'confirmation_token', estimate });
+    return undefined;
+  }
+
+  if (server.server.getClientCapabilities()?.elicitation) {
+    const answer = await server.server.elicitInput({
+      message: `The ${name} tool uses an expensive model (${config.model}). Estimated cost: ${estimate}. Run it?`,
+      requestedSchema: {
+        type: 'object',
+        properties: {
+          confirm: { type: 'boolean', title: 'Run this expensive call', description: `Estimated cost: ${estimate}` },
+        },
+        required: ['confirm'],
+      },
+    });
+
+    if (answer.action === 'accept' && answer.content?.confirm === true) {
+      logConfirmation(name, 'approved', { via: 'elicitation', estimate });
+      return undefined;
+    }
+
+    logConfirmation(name, 'declined', { via: 'elicitation', action: answer.action });
+    return {
+      content: [
+        {
+          type: "text" as const,
+          text: `The user declined the ${name} call. Do not retry unless they ask for it.`,
+        },
+      ],
+    };
+  }
+
+  // Dry run: issue a token the agent can use once the user has approved
+  const token = randomUUID();
+  pendingConfirmations.set(token, { fingerprint, expiresAt: Date.now() + CONFIRMATION_TTL_MS });
+  logConfirmation(name, 'dry_run', { estimate });
+
+  return {
+    content: [
+      {
+        type: "text" as const,
+        text: `${name} requires explicit user confirmation. Estimated cost: ${estimate}.\n\nAsk the user to approve this call. If they approve, call ${name} again with the same arguments plus confirm: true and confirmation_token: "${token}" (valid for ${CONFIRMATION_TTL_MS / 60000} minutes). Nothing was sent to the model.`,
+      },
+    ],
+    structuredContent: {
+      requires_confirmation: true,
+      confirmation_token: token,
+      estimated_cost: estimate,
+      expires_at: new Date(Date.now() + CONFIRMATION_TTL_MS).toISOString(),
+    },
+  };
+}
+
+// ============================================================================
+// Tool Factory
+// ============================================================================
+
+interface RequestOptions {
+  input: string | Record<string, unknown>[];
+  // Chain onto an earlier response when continuing a thread
+  previousResponseId?: string;
+  webSearchOptions?: WebSearchOptions;
+}
+
+// Per-call settings that override the tool config
+interface CallOverrides {
+  effort?: ReasoningEffort;
+  search_context_size?: SearchContextSize;
+  verbosity?: Verbosity;
+  max_output_tokens?: number;
+  web_search?: boolean;
+}
+
+// Apply per-call overrides to a tool config, rejecting values outside the
+// tool's limits
+function applyOverrides(config: ToolConfig, overrides: CallOverrides): ToolConfig {
+  const limits = config.limits ?? {};
+  const problems: string[] = [];
+
+  if (overrides.web_search === true && !config.webSearch?.enabled) {
+    problems.push('web_search: this tool has no web search');
+  }
+  if (overrides.web_search === false && limits.requireWebSearch) {
+    problems.push('web_search: this tool does not allow turning web search off');
+  }
+  const webSearchEnabled = Boolean(config.webSearch?.enabled) && overrides.web_search !== false;
+
+  if (overrides.search_context_size && !webSearchEnabled) {
+    problems.push('search_context_size: web search is off for this call');
+  }
+  if (overrides.search_context_size && limits.maxSearchContextSize
+    && SEARCH_CONTEXT_SIZES.indexOf(overrides.search_context_size) > SEARCH_CONTEXT_SIZES.indexOf(limits.maxSearchContextSize)) {
+    problems.push(`search_context_size: at most "${limits.maxSearchContextSize}" for this tool`);
+  }
+
+  const effort = overrides.effort ?? config.reasoning.effort;
+  if (overrides.effort && limits.minEffort && EFFORT_LEVELS.indexOf(effort) < EFFORT_LEVELS.indexOf(limits.minEffort)) {
+    problems.push(`effort: at least "${limits.minEffort}" for this tool`);
+  }
+  if (overrides.effort && limits.maxEffort && EFFORT_LEVELS.indexOf(effort) > EFFORT_LEVELS.indexOf(limits.maxEffort)) {
+    problems.push(`effort: at most "${limits.maxEffort}" for this tool`);
+  }
+  if (effort === 'minimal' && webSearchEnabled) {
+    problems.push('effort: "minimal" cannot be combined with web search; also pass web_search: false');
+  }
+
+  if (overrides.max_output_tokens && limits.maxOutputTokens && overrides.max_output_tokens > limits.maxOutputTokens) {
+    problems.push(`max_output_tokens: at most ${limits.maxOutputTokens} for this tool`);
+  }
+
+  if (problems.length > 0) {
+    throw new ValidationError(`Invalid per-call settings:\n${problems.map(problem => `  - ${problem}`).join('\n')}`);
+  }
+
+  return {
+    ...config,
+    reasoning: { effort },
+    webSearch: config.webSearch && {
+      ...config.webSearch,
+      enabled: webSearchEnabled,
+      contextSize: overrides.search_context_size ?? config.webSearch.contextSize,
+    },
+    verbosity: overrides.verbosity ?? config.verbosity,
+    limits: { ...limits, maxOutputTokens: overrides.max_output_tokens ?? limits.maxOutputTokens },
+  };
+}
+
+// Build Responses API request parameters for a tool call
+function buildRequest(
+  config: ToolConfig,
+  options: RequestOptions,
+): { params: Record<string, any>; domainPolicy?: DomainPolicy } {
+  // Build request parameters
+  const params: Record<string, any> = {
+    model: config.model,
+    reasoning: config.reasoning,
+    input: options.input,
+  };
+
+  if (config.limits?.maxOutputTokens) {
+    params.max_output_tokens = config.limits.maxOutputTokens;
+  }
+
+  if (config.verbosity) {
+    params.text = { verbosity: config.verbosity };
+  }
+
+  if (options.previousResponseId) {
+    params.previous_response_id = options.previousResponseId;
+  }
+
+  // Add web search tool if enabled
+  const instructions = config.instructions ? [config.instructions] : [];
+  let domainPolicy: DomainPolicy | undefined;
+  if (config.webSearch?.enabled) {
+    const webSearch = resolveWebSearch(config.webSearch, options.webSearchOptions ?? {});
+    params.tools = [webSearch.tool];
+    instructions.push(...webSearch.hints);
+    domainPolicy = webSearch.policy;
+  }
+
+  if (instructions.length > 0) {
+    params.instructions = instructions.join('\n\n');
+  }
+
+  return { params, domainPolicy };
+}
+
+// Which fallback trigger, if any, an error from a model call matches
+function fallbackTrigger(error: unknown): FallbackTrigger | undefined {
+  if (error instanceof CircuitOpenError) {
+    return 'circuit_open';
+  }
+  if (error instanceof TimeoutError) {
+    return 'timeout';
+  }
+  if (!(error instanceof HttpError)) {
+    return undefined;
+  }
+  if (error.errorType === 'insufficient_quota' || error.errorCode === 'insufficient_quota') {
+    return 'quota';
+  }
+  if (error.errorCode === 'model_not_found' || error.status === 404) {
+    return 'model_not_found';
+  }
+  if (error.status === 429) {
+    return 'rate_limit';
+  }
+  return error.status >= 500 ? 'server_error' : undefined;
+}
+
+// Counts responses that did not match the GPT5Response schema, by field path
+// (array indexes as "*"), so API changes show up in usage_report and /health
+// instead of as a full response dump per call. Each new path is logged once.
+class SchemaDriftCounter {
+  responses = 0;
+  private paths = new Map<string, number>();
+
+  record(error: z.ZodError) {
+    this.responses++;
+    const messages = new Map<string, string>();
+    for (const issue of error.issues) {
+      const path = issue.path.map(part => typeof part === 'number' ? '*' : part).join('.') || '(root)';
+      messages.set(path, messages.get(path) ?? issue.message);
+    }
+    for (const [path, message] of messages) {
+      const count = this.paths.get(path) ?? 0;
+      if (count === 0) {
+        console.error(`Response schema drift at ${path}: ${message}`);
+      }
+      this.paths.set(path, count + 1);
+    }
+  }
+
+  snapshot() {
+    return { responses: this.responses, by_path: Object.fromEntries(this.paths) };
+  }
+}
+
+const schemaDrift = new SchemaDriftCounter();
+
+// Validate a response's output items, falling back to the unvalidated items if
+// validation fails
+function responseOutput(response: any): GPT5Output[] {
+  const validationResult = GPT5Response.safeParse(response);
+
+  if (!validationResult.success) {
+    schemaDrift.record(validationResult.error);
+    return (response.output ?? []) as any[];
+  }
+  return validationResult.data.output;
+}
+
+// Error categories reported in structuredContent.error.code
+type ErrorCode =
+  | 'quota'
+  | 'rate_limit'
+  | 'auth'
+  | 'upstream_unavailable'
+  | 'validation'
+  | 'timeout'
+  | 'content_filter'
+  | 'cancelled'
+  | 'internal';
+
+interface ErrorDetails {
+  code: ErrorCode;
+  message: string;
+  // Whether the same call may succeed if made again later
+  retryable: boolean;
+  retry_after_ms?: number;
+  // Upstream HTTP status and error code, when the API returned an error
+  status?: number;
+  upstream_code?: string;
+}
+
+const CONTENT_FILTER_CODES = ['content_filter', 'content_policy_violation'];
+
+// Sort an error thrown by a tool handler into the error taxonomy
+function classifyError(error: unknown): ErrorDetails {
+  const message = error instanceof Error ? error.message : "Unknown error occurred";
+
+  if (error instanceof HttpError) {
+    const upstream = {
+      status: error.status,
+      ...(error.errorCode || error.errorType ? { upstream_code: error.errorCode || error.errorType } : {}),
+    };
+    if (error.errorType === 'insufficient_quota' || error.errorCode === 'insufficient_quota') {
+      return {
+        code: 'quota',
+        message: "Insufficient OpenAI credits. You have exceeded your current quota. Please check your OpenAI plan and billing details at https://platform.openai.com/account/billing",
+        retryable: false,
+        ...upstream,
+      };
+    }
+    if (CONTENT_FILTER_CODES.includes(error.errorCode ?? '') || CONTENT_FILTER_CODES.includes(error.errorType ?? '')) {
+      return { code: 'content_filter', message: `Blocked by the content filter: ${error.message}`, retryable: false, ...upstream };
+    }
+    if (error.status === 429) {
+      return {
+        code: 'rate_limit',
+        message: `Rate limited. ${error.retryAfterMs ? `Please retry after ${error.retryAfterMs / 1000} seconds.` : 'Please try again later.'}`,
+        retryable: true,
+        ...(error.retryAfterMs !== undefined ? { retry_after_ms: error.retryAfterMs } : {}),
+        ...upstream,
+      };
+    }
+    if (error.status === 401 || error.status === 403) {
+      return { code: 'auth', message: "Authentication failed. Please check your OPENAI_API_KEY.", retryable: false, ...upstream };
+    }
+    if (error.status >= 500) {
+      return {
+        code: 'upstream_unavailable',
+        message: "OpenAI service is temporarily unavailable. Please try again later.",
+        retryable: true,
+        ...(error.retryAfterMs !== undefined ? { retry_after_ms: error.retryAfterMs } : {}),
+        ...upstream,
+      };
+    }
+    return { code: 'validation', message: `Error (${error.status}): ${error.message}`, retryable: false, ...upstream };
+  }
+
+  if (error instanceof CircuitOpenError) {
+    return {
+      code: 'upstream_unavailable',
+      message,
+      retryable: true,
+      ...(error.retryAfterMs !== undefined ? { retry_after_ms: error.retryAfterMs } : {}),
+    };
+  }
+  if (error instanceof QueueFullError) {
+    return { code: 'rate_limit', message, retryable: true };
+  }
+  if (error instanceof BudgetExceededError) {
+    return { code: 'quota', message, retryable: false };
+  }
+  if (error instanceof TimeoutError) {
+    return { code: 'timeout', message, retryable: true };
+  }
+  if (error instanceof CancelledError) {
+    return { code: 'cancelled', message, retryable: false };
+  }
+  if (error instanceof ValidationError || error instanceof OutputSchemaError) {
+    return { code: 'validation', message, retryable: false };
+  }
+  if (error instanceof JobFailedError) {
+    return { ...classifyError(error.cause), message, retryable: false };
+  }
+  // Errors that wrap another, such as every compared tool failing, take its category
+  if (error instanceof Error && error.cause !== undefined) {
+    return { ...classifyError(error.cause), message };
+  }
+  return { code: 'internal', message, retryable: false };
+}
+
+// Convert an error thrown by a tool handler into an isError tool result with
+// the error's category in structuredContent.error
+function errorResult(name: string, error: unknown) {
+  console.error(`Error in tool ${name}:`, error);
+
+  const details = classifyError(error);
+  return {
+    content: [
+      {
+        type: "text" as const,
+        text: error instanceof HttpError ? details.message : `Error: ${details.message}`,
+      },
+    ],
+    structuredContent: { error: details },
+    isError: true,
+  };
+}
+
+// Arguments shared by every model tool; confirmation arguments are added for
+// tools that require explicit confirmation
+const toolArgs = {
+  input: z.string().describe('Ask questions, search for information, or consult about problems in English.'),
+  session_id: z.string().optional().describe('Conversation session id. Calls with the same session_id continue the same thread, so follow-up questions keep prior context.'),
+  continue_from: z.string().optional().describe('Response id (structuredContent.response_id of an earlier call) to continue from. Takes precedence over the session\'s last response.'),
+  bypass_cache: z.boolean().optional().describe('Skip the response cache and always query the model (the fresh answer still refreshes the cache).'),
+  allowed_domains: z.array(z.string()).optional().describe('Restrict web search to these domains (e.g. ["nvd.nist.gov"]). Must stay within the tool\'s own allowlist, if any.'),
+  blocked_domains: z.array(z.string()).optional().describe('Domains that must not be cited; citations from them are flagged.'),
+  user_location: UserLocationSchema.optional().describe('Approximate user location to localize search results.'),
+  recency_days: z.number().int().positive().optional().describe('Prefer sources published within this many days.'),
+  output_schema: z.record(z.any()).optional().describe('JSON Schema for the answer. The answer is validated against it and returned as structuredContent.data.'),
+  files: z.array(z.string()).optional().describe('Paths of local files to attach, relative to the server\'s workspace root.'),
+  globs: z.array(z.string()).optional().describe('Glob patterns (e.g. "src/**/*.ts") of local files to attach, relative to the workspace root. Files ignored by .gitignore are skipped.'),
+  media: z.array(MediaInputSchema).optional().describe('Images (PNG, JPEG, GIF, WebP) or PDFs to include, e.g. an error screenshot or a spec. Accepts MCP image content ({ data, mimeType }) or a workspace path.'),
+  effort: z.enum(['minimal', 'low', 'medium', 'high']).optional().describe('Reasoning effort for this call, within the tool\'s limits. "minimal" requires web_search: false.'),
+  search_context_size: z.enum(['low', 'medium', 'high']).optional().describe('Web search context size for this call, within the tool\'s limits.'),
+  verbosity: z.enum(['low', 'medium', 'high']).optional().describe('How long and detailed the answer should be.'),
+  max_output_tokens: z.number().int().positive().optional().describe('Maximum output tokens for this call, up to the tool\'s limit.'),
+  web_search: z.boolean().optional().describe('Set to false to answer from the model alone, without web search.'),
+  template: z.string().optional().describe('Name of a prompt template (see prompts/list). The template is filled in with input and template_args and sent instead of the bare input.'),
+  template_args: z.record(z.string()).optional().describe('Values for the template\'s other arguments, e.g. { "environment": "Node 22" }.'),
+  include_trace: z.boolean().optional().describe('Also return what the model searched for, the pages it opened and its reasoning summary.'),
+};
+
+type ToolArgs = z.objectOutputType<typeof toolArgs, z.ZodTypeAny> & {
+  confirm?: boolean;
+  confirmation_token?: string;
+};
+
+// The request path behind every model tool: attachments, cache, confirmation,
+// streaming call with retry, structured output, sessions and usage. Returns
+// the confirmation prompt instead of a result when the gate stops the call.
+async function runTool(
+  server: McpServer,
+  name: string,
+  toolConfig: ToolConfig,
+  {
+    input: rawInput, session_id, continue_from, bypass_cache, output_schema, confirm, confirmation_token, files, globs, media,
+    effort, search_context_size, verbosity, max_output_tokens, web_search, template, template_args, include_trace,
+    ...webSearchOptions
+  }: ToolArgs,
+  extra: RequestHandlerExtra<ServerRequest, ServerNotification>,
+) {
+  const input = template ? renderTemplate(template, { ...template_args, input: rawInput }) : rawInput;
+  const overrides: CallOverrides = { effort, search_context_size, verbosity, max_output_tokens, web_search };
+  const hasOverrides = Object.values(overrides).some(value => value !== undefined);
+  const config = hasOverrides ? applyOverrides(toolConfig, overrides) : toolConfig;
+
+  // Attach local files as labeled blocks ahead of the question
+  const { attachments, skipped } = files?.length || globs?.length
+    ? await resolveAttachments(files ?? [], globs ?? [])
+    : { attachments: [], skipped: [] };
+  const mediaInputs = media?.length ? resolveMedia(media) : [];
+
+  const { params: requestParams, domainPolicy } = buildRequest(config, {
+    input: packInput(input, attachments, mediaInputs),
+    previousResponseId: continue_from ?? (session_id ? sessions.get(clientOf(extra), session_id)?.lastResponseId : undefined),
+    webSearchOptions,
+  });
+
+  // Reasoning summaries are only returned on request
+  if (include_trace) {
+    requestParams.reasoning = { ...requestParams.reasoning, summary: 'auto' };
+  }
+
+  // Ask for JSON matching the caller's schema
+  const validateOutput = output_schema ? compileOutputSchema(output_schema) : undefined;
+  if (output_schema) {
+    requestParams.text = { ...requestParams.text, ...jsonSchemaFormat(output_schema) };
+  }
+
+  const provider = getProvider(config);
+  const cacheKey = responseCache?.key(provider.name, requestParams);
+  const cached = cacheKey && !bypass_cache ? await responseCache!.get(cacheKey) : undefined;
+
+  // Cached answers are free, so only real calls need confirmation
+  if (!cached) {
+    const gate = await checkConfirmation(server, name, config, requestParams, { confirm, confirmation_token });
+    if (gate) {
+      return gate;
+    }
+  }
+
+  // Run one model request: budget check, streaming call with retry, and
+  // usage recording. Cached answers cost nothing and skip all of this.
+  const reportProgress = createProgressReporter(extra);
+  const usageRecords: UsageRecord[] = [];
+  let queueWaitMs = 0;
+  // Models that failed before another one in the fallback chain answered
+  const fallbacks: { model: string; reason: FallbackTrigger; error: string }[] = [];
+  const callModel = async (params: Record<string, any>) => {
+    usageLedger.checkBudget(usageSessionOf(extra));
+
+    // Try the tool's model, then its fallback models, each with the full retry policy
+    const models = [params.model, ...(config.fallback?.models ?? [])];
+    const triggers = config.fallback?.on ?? DEFAULT_FALLBACK_TRIGGERS;
+    for (let index = 0; ; index++) {
+      const attemptParams = { ...params, model: models[index] };
+      try {
+        // Make streaming API call with retry logic, forwarding progress to the client.
+        // Each attempt waits for the rate limiter and holds a slot until the stream ends.
+        const apiResponse = await withRetry(async signal => {
+          try {
+            const stream = await provider.streamResponse(attemptParams, signal);
+            return await consumeResponseStream(stream, reportProgress);
+          } catch (error) {
+            throw toHttpError(error);
+          }
+        }, {
+          policy: retryPolicyFor(config),
+          signal: extra.signal,
+          circuit: circuitFor(provider.name, attemptParams.model),
+          acquire: async signal => {
+            const slot = await rateLimiter.acquire(provider.name, attemptParams.model, estimateRequestTokens(attemptParams), reportProgress, signal);
+            queueWaitMs += slot.waitedMs;
+            return slot;
+          },
+        });
+
+        if (apiResponse.usage) {
+          usageRecords.push(usageLedger.record(usageSessionOf(extra), name, apiResponse.model || attemptParams.model, apiResponse.usage));
+        }
+        return apiResponse;
+      } catch (error) {
+        const reason = fallbackTrigger(error);
+        if (index + 1 >= models.length || !reason || !triggers.includes(reason)) {
+          throw error;
+        }
+        const message = error instanceof Error ? error.message : String(error);
+        fallbacks.push({ model: models[index], reason, error: message });
+        console.error(`${name}: ${models[index]} failed (${reason}), falling back to ${models[index + 1]}`);
+        await reportProgress(`${models[index]} failed (${reason}), falling back to ${models[index + 1]}...`);
+      }
+    }
+  };
+
+  let response = cached ? cached.response : await callModel(requestParams);
+
+  // Continue answers cut off at the output token limit, joining the parts.
+  // Structured output is skipped: a continuation would start a new JSON value.
+  let continuations = 0;
+  while (!cached && !validateOutput && continuations < (config.autoContinue ?? 0) && isTruncated(response)) {
+    continuations++;
+    await reportProgress(`Answer was cut off, continuing (${continuations}/${config.autoContinue})...`);
+    const next = await callModel({
+      ...requestParams,
+      previous_response_id: response.id,
+      input: 'Your previous answer was cut off. Continue it exactly where it stopped, without repeating anything.',
+    });
+    response = { ...next, output: appendContinuation(response.output ?? [], next.output ?? []) };
+  }
+
+  // Validate structured output, retrying once with the validation errors
+  let structuredData: unknown;
+  if (validateOutput) {
+    let parsed = parseStructuredOutput(extractResponseText(response.output ?? []).text, validateOutput);
+    if (!parsed.success && !cached) {
+      await reportProgress('Answer did not match output_schema, retrying...');
+      response = await callModel({
+        ...requestParams,
+        previous_response_id: response.id,
+        input: `Your previous answer did not match the required JSON schema: ${parsed.errors}. Respond again with only JSON that matches the schema.`,
+      });
+      parsed = parseStructuredOutput(extractResponseText(response.output ?? []).text, validateOutput);
+    }
+    if (!parsed.success) {
+      throw new OutputSchemaError(`Answer did not match output_schema: ${parsed.errors}`);
+    }
+    structuredData = parsed.data;
+  }
+
+  // A fallback answer is not cached under the primary model's request
+  if (cacheKey && !cached && response.status === 'completed' && fallbacks.length === 0) {
+    await responseCache!.set(cacheKey, response);
+  }
+
+  const usage = summarizeUsage(usageRecords);
+
+  // Remember the response so the next call in this session continues from it
+  if (session_id && response.id) {
+    sessions.record(clientOf(extra), session_id, name, response.id);
+  }
+
+  const metadata = {
+    response_id: response.id,
+    ...(session_id ? { session_id } : {}),
+    cached: Boolean(cached),
+    ...(cached ? { cached_at: new Date(cached.createdAt).toISOString() } : {}),
+    model: response.model || config.model,
+    ...responseStatus(response),
+    ...(continuations > 0 ? { continuations } : {}),
+    ...(fallbacks.length > 0 ? { fallbacks } : {}),
+    ...(usage ? { usage } : {}),
+    ...(queueWaitMs > 0 ? { queue_wait_ms: queueWaitMs } : {}),
+    ...(validateOutput ? { data: structuredData } : {}),
+    ...(files?.length || globs?.length ? {
+      attachments: { included: attachments.map(a => a.path), skipped },
+    } : {}),
+    ...(template ? { template } : {}),
+    ...(hasOverrides ? {
+      settings: {
+        effort: config.reasoning.effort,
+        web_search: Boolean(config.webSearch?.enabled),
+        ...(config.webSearch?.enabled ? { search_context_size: config.webSearch.contextSize ?? 'medium' } : {}),
+        ...(config.verbosity ? { verbosity: config.verbosity } : {}),
+        ...(config.limits?.maxOutputTokens ? { max_output_tokens: config.limits.maxOutputTokens } : {}),
+      },
+    } : {}),
+    ...(mediaInputs.length ? {
+      media: mediaInputs.map(m => ({ source: m.source, mime_type: m.mimeType, bytes: m.bytes })),
+    } : {}),
+  };
+
+  // Extract text and citations from the (validated) response
+  const output = responseOutput(response);
+  const result = buildToolResult(output, metadata, domainPolicy, responseWarnings(response, output));
+
+  // Say plainly that a fallback model answered
+  if (fallbacks.length > 0) {
+    result.content.push({
+      type: "text" as const,
+      text: `Note: answered by fallback model ${response.model || '(unknown)'} because ${fallbacks.map(f => `${f.model} failed (${f.reason})`).join(', then ')}.`,
+    });
+  }
+
+  // The trace goes in its own content block so the answer text stays clean
+  if (include_trace) {
+    const trace = extractTrace(output);
+    result.content.push({ type: "text" as const, text: formatTrace(trace) });
+    result.structuredContent.trace = trace;
+  }
+
+  return result;
+}
+
+// Tool factory function
+function createTool(server: McpServer, name: string, config: ToolConfig) {
+  return server.tool(
+    name,
+    config.description,
+    {
+      ...toolArgs,
+      ...(config.requiresExplicitConfirmation ? confirmationArgs : {}) as typeof confirmationArgs,
+    },
+    async (args, extra) => {
+      try {
+        const result = await runTool(server, name, config, args, extra);
+        return isToolResult(result) ? saveAsResourceIfLarge(name, config, result, clientOf(extra)) : result;
+      } catch (error) {
+        return errorResult(name, error);
+      }
+    }
+  );
+}
+
+// ============================================================================
+// Research
+// ============================================================================
+
+const researchSettings = {
+  // Model tool that answers each sub-query
+  tool: process.env.RESEARCH_TOOL || 'gpt5-search',
+  // Cheap model that decomposes the question
+  plannerModel: process.env.RESEARCH_PLANNER_MODEL || 'gpt-5-mini',
+  concurrency: parseInt(process.env.RESEARCH_CONCURRENCY || '') || 3,
+  maxSubqueries: parseInt(process.env.RESEARCH_MAX_SUBQUERIES || '') || 6,
+  maxCostUsd: parseBudget(process.env.RESEARCH_MAX_COST_USD) ?? 0.5,
+  // Estimated web search fees per sub-query, which the token usage leaves out
+  searchFeeUsd: parseBudget(process.env.RESEARCH_SEARCH_FEE_USD) ?? 0.03,
+};
+
+const RESEARCH_PLANNER_INSTRUCTIONS = 'Break the research question into focused, self-contained web search queries that together cover it. Do not answer the question.';
+
+const RESEARCH_SYNTHESIS_INSTRUCTIONS = 'Write one answer to the question using only the findings provided. Cite sources with their bracketed numbers, e.g. [2]. Point out where findings disagree and which parts of the question could not be answered.';
+
+const SUBQUERY_SCHEMA = {
+  type: 'object',
+  properties: {
+    subqueries: { type: 'array', items: { type: 'string' }, minItems: 1 },
+  },
+  required: ['subqueries'],
+  additionalProperties: false,
+};
+
+interface SubqueryOutcome {
+  query: string;
+  status: 'completed' | 'failed' | 'skipped';
+  result?: ToolResult;
+  error?: string;
+  // The thrown error, for its error category
+  failure?: unknown;
+}
+
+type UsageSummary = NonNullable<ReturnType<typeof summarizeUsage>>;
+
+// Run tasks with at most `limit` in flight; results keep the task order
+async function runWithConcurrency<T>(tasks: (() => Promise<T>)[], limit: number): Promise<T[]> {
+  const results: T[] = new Array(tasks.length);
+  let next = 0;
+  const worker = async () => {
+    while (next < tasks.length) {
+      const index = next++;
+      results[index] = await tasks[index]();
+    }
+  };
+  await Promise.all(Array.from({ length: Math.min(limit, tasks.length) }, worker));
+  return results;
+}
+
+// Usage summary of a model tool result, if the call was not cached
+function resultUsage(result: ToolResult | undefined): UsageSummary | undefined {
+  return result?.structuredContent.usage as UsageSummary | undefined;
+}
+
+// Add up the usage of several model tool results
+function mergeUsage(results: (ToolResult | undefined)[]) {
+  const usages = results.map(resultUsage).filter((usage): usage is UsageSummary => Boolean(usage));
+  return {
+    api_calls: usages.reduce((sum, u) => sum + u.api_calls, 0),
+    input_tokens: usages.reduce((sum, u) => sum + u.input_tokens, 0),
+    output_tokens: usages.reduce((sum, u) => sum + u.output_tokens, 0),
+    reasoning_tokens: usages.reduce((sum, u) => sum + u.reasoning_tokens, 0),
+    cost_usd: usages.reduce((sum, u) => sum + u.cost_usd, 0),
+  };
+}
+
+// Number the sources of several answers together, one number per URL
+function renumberSources(results: (ToolResult | undefined)[]): Citation[][] {
+  const sourceNumbers = new Map<string, number>();
+  return results.map(result => (result?.structuredContent.citations ?? []).map(citation => {
+    if (!sourceNumbers.has(citation.url)) {
+      sourceNumbers.set(citation.url, sourceNumbers.size + 1);
+    }
+    return { ...citation, source: sourceNumbers.get(citation.url)! };
+  }));
+}
+
+// Append answers under headings, moving each answer's (renumbered) citation
+// spans along with its text
+function appendAnswers(
+  text: string,
+  sections: { heading: string; result?: ToolResult; citations: Citation[] }[],
+): { text: string; citations: Citation[] } {
+  const citations: Citation[] = [];
+  for (const section of sections) {
+    text += `\n\n${section.heading}`;
+    if (section.result) {
+      text += '\n';
+      const offset = text.length;
+      text += section.result.structuredContent.text;
+      citations.push(...section.citations.map(citation => ({
+        ...citation,
+        start_index: citation.start_index + offset,
+        end_index: citation.end_index + offset,
+      })));
+    }
+  }
+  citations.sort((a, b) => a.source - b.source);
+  return { text, citations };
+}
+
+// Estimated search fees of one research call, counted on top of its token usage
+function researchSearchFee(config: ToolConfig): number {
+  return config.webSearch?.enabled ? researchSettings.searchFeeUsd : 0;
+}
+
+// Estimated cost of one research call, reserved before it starts. The call is
+// held to its estimated output tokens without auto-continuation, and priced
+// at the dearest model it may fall back to, plus search fees; `attempts`
+// covers the structured-output retry. Retried attempts are not included.
+function boundResearchCall(config: ToolConfig, input: string, attempts: number): { config: ToolConfig; costUsd: number } {
+  const maxOutputTokens = config.limits?.maxOutputTokens ?? ESTIMATED_OUTPUT_TOKENS[config.reasoning.effort ?? 'medium'];
+  const bounded: ToolConfig = { ...config, autoContinue: undefined, limits: { ...config.limits, maxOutputTokens } };
+  const { params } = buildRequest(bounded, { input });
+  const costs = [config.model, ...(config.fallback?.models ?? [])].map(model => estimateCostUsd({ ...params, model }) ?? 0);
+  return { config: bounded, costUsd: attempts * (Math.max(...costs) + researchSearchFee(config)) };
+}
+
+// Why a sub-call's answer is incomplete, e.g. "max_output_tokens"
+function incompleteReason(result: ToolResult | undefined): string | undefined {
+  return result?.structuredContent.incomplete_reason as string | undefined;
+}
+
+// Decompose the question, answer the sub-queries concurrently through the
+// normal tool request path, then synthesize one answer. Sub-queries that fail
+// or would exceed the cost cap are reported in the appendix instead.
+async function runResearch(
+  server: McpServer,
+  config: ToolConfig,
+  { input, max_subqueries, max_cost_usd }: { input: string; max_subqueries?: number; max_cost_usd?: number },
+  extra: RequestHandlerExtra<ServerRequest, ServerNotification>,
+) {
+  const reportProgress = createProgressReporter(extra);
+  // Sub-calls report through the research tool, not one progress stream each
+  const quietExtra = { ...extra, _meta: undefined };
+  const maxCost = Math.min(max_cost_usd ?? researchSettings.maxCostUsd, researchSettings.maxCostUsd);
+  const limit = Math.min(max_subqueries ?? 4, researchSettings.maxSubqueries);
+  let planned: ToolResult | undefined;
+  let synthesis: ToolResult | undefined;
+  const outcomes: SubqueryOutcome[] = [];
+  // Spend of finished calls, and estimates reserved by calls in flight
+  let spentUsd = 0;
+  let reservedUsd = 0;
+  // Calls waiting for a reservation to be released
+  let settled: (() => void)[] = [];
+  // Run one call within the cap: reserve its estimated cost before it starts,
+  // waiting while calls in flight hold too much, then swap the reservation for
+  // the actual cost. A call that failed after the API accepted it keeps its
+  // whole reservation, since it may have been billed. Returns undefined,
+  // without calling, when the estimate can no longer fit under the cap.
+  const runCapped = async (callConfig: ToolConfig, args: ToolArgs) => {
+    const bound = boundResearchCall(callConfig, args.input, args.output_schema ? 2 : 1);
+    while (spentUsd + reservedUsd + bound.costUsd > maxCost) {
+      if (spentUsd + bound.costUsd > maxCost) {
+        return undefined;
+      }
+      await new Promise<void>(resolve => settled.push(resolve));
+    }
+    reservedUsd += bound.costUsd;
+    let costUsd = bound.costUsd;
+    try {
+      const result = await runTool(server, 'gpt5-research', bound.config, args, quietExtra);
+      costUsd = isToolResult(result) && !result.structuredContent.cached
+        ? (resultUsage(result)?.cost_usd ?? 0) + researchSearchFee(callConfig)
+        : 0;
+      return result;
+    } catch (error) {
+      // The API rejected the request: nothing was billed
+      if (error instanceof HttpError && error.status >= 400 && error.status < 500) {
+        costUsd = 0;
+      }
+      throw error;
+    } finally {
+      reservedUsd -= bound.costUsd;
+      spentUsd += costUsd;
+      const waiting = settled;
+      settled = [];
+      waiting.forEach(resolve => resolve());
+    }
+  };
+  const capReached = `would exceed the cost cap of $${maxCost}`;
+
+  // Plan: fall back to the question itself if the planner fails
+  await reportProgress('Planning sub-queries...');
+  let queries = [input];
+  try {
+    const plan = await runCapped({
+      ...config,
+      model: researchSettings.plannerModel,
+      reasoning: { effort: 'minimal' },
+      webSearch: undefined,
+      instructions: RESEARCH_PLANNER_INSTRUCTIONS,
+    }, { input: `Question: ${input}\n\nReturn at most ${limit} sub-queries.`, output_schema: SUBQUERY_SCHEMA });
+    if (!plan) {
+      console.error(`Research planner skipped (${capReached}), using the question as the only sub-query`);
+    } else if (isToolResult(plan)) {
+      planned = plan;
+      const data = plan.structuredContent.data as { subqueries: string[] };
+      queries = data.subqueries.map(query => query.trim()).filter(Boolean).slice(0, limit);
+    }
+  } catch (error) {
+    console.error('Research planner failed, using the question as the only sub-query:', error);
+  }
+
+  // Answer sub-queries concurrently; each reserves its estimated cost before it starts
+  let finished = 0;
+  outcomes.push(...await runWithConcurrency(queries.map(query => async (): Promise<SubqueryOutcome> => {
+    try {
+      const result = await runCapped(config, { input: query });
+      if (!result) {
+        return { query, status: 'skipped', error: capReached };
+      }
+      if (!isToolResult(result)) {
+        throw new Error(`${researchSettings.tool} requires confirmation`);
+      }
+      return { query, status: 'completed', result };
+    } catch (error) {
+      return { query, status: 'failed', error: error instanceof Error ? error.message : String(error), failure: error };
+    } finally {
+      await reportProgress(`Sub-query ${++finished}/${queries.length} done`);
+    }
+  }), researchSettings.concurrency));
+
+  const completed = outcomes.filter(outcome => outcome.result);
+  if (completed.length === 0) {
+    throw new Error(
+      `No research sub-query succeeded: ${outcomes.map(o => o.error).join('; ')}`,
+      { cause: outcomes.find(o => o.failure)?.failure },
+    );
+  }
+
+  const subCitations = renumberSources(outcomes.map(outcome => outcome.result));
+  const sourceList = uniqueSources(subCitations.flat().sort((a, b) => a.source - b.source))
+    .map(s => `[${s.source}] ${s.title} - ${s.url}`).join('\n');
+
+  // Synthesize, unless its estimated cost no longer fits under the cap
+  const findings = outcomes.map((outcome, index) => outcome.result
+    ? `[Sub-query ${index + 1}] ${outcome.query}${incompleteReason(outcome.result) ? ` (answer incomplete: ${incompleteReason(outcome.result)})` : ''}\n${outcome.result.structuredContent.text}\nSources: ${[...new Set(subCitations[index].map(c => `[${c.source}]`))].join(', ') || 'none'}`
+    : `[Sub-query ${index + 1}] ${outcome.query}\nNo answer (${outcome.status}: ${outcome.error})`).join('\n\n');
+  let synthesisText: string;
+  try {
+    await reportProgress('Synthesizing answer...');
+    const result = await runCapped({
+      ...config,
+      webSearch: undefined,
+      instructions: RESEARCH_SYNTHESIS_INSTRUCTIONS,
+    }, { input: `Question: ${input}\n\nFindings:\n\n${findings}\n\nSources:\n${sourceList}` });
+    if (!result) {
+      synthesisText = `Synthesis skipped: it ${capReached}. See the sub-query answers below.`;
+    } else if (!isToolResult(result)) {
+      throw new Error(`${researchSettings.tool} requires confirmation`);
+    } else {
+      synthesis = result;
+      synthesisText = result.structuredContent.text;
+    }
+  } catch (error) {
+    console.error('Research synthesis failed:', error);
+    synthesisText = `Synthesis failed (${error instanceof Error ? error.message : String(error)}). See the sub-query answers below.`;
+  }
+
+  const { text, citations } = appendAnswers(`${synthesisText}${TEXT_SEPARATOR}Sub-query appendix:`, outcomes.map((outcome, index) => ({
+    heading: `${index + 1}. ${outcome.query} (${outcome.status}${outcome.error ? `: ${outcome.error}` : ''}${incompleteReason(outcome.result) ? `, answer incomplete: ${incompleteReason(outcome.result)}` : ''})`,
+    result: outcome.result,
+    citations: subCitations[index],
+  })));
+
+  return formatToolResult(text, citations, {
+    subqueries: outcomes.map(outcome => ({
+      query: outcome.query,
+      status: outcome.status,
+      ...(outcome.error ? { error: outcome.error } : {}),
+      ...(outcome.failure ? { error_code: classifyError(outcome.failure).code } : {}),
+      ...(incompleteReason(outcome.result) ? { incomplete_reason: incompleteReason(outcome.result) } : {}),
+      ...(resultUsage(outcome.result) ? { cost_usd: resultUsage(outcome.result)!.cost_usd } : {}),
+    })),
+    synthesized: Boolean(synthesis),
+    usage: mergeUsage([planned, ...outcomes.map(o => o.result), synthesis]),
+    max_cost_usd: maxCost,
+  });
+}
+
+// ============================================================================
+// Compare
+// ============================================================================
+
+const compareSettings = {
+  // Tools compared when the call does not name any; defaults to all tools
+  // with web search
+  tools: (process.env.COMPARE_TOOLS || '').split(',').map(name => name.trim()).filter(Boolean),
+  judgeModel: process.env.COMPARE_JUDGE_MODEL || 'gpt-5-mini',
+};
+
+const COMPARE_JUDGE_INSTRUCTIONS = 'You compare answers that different models gave to the same question. Do not answer the question yourself. List the claims the answers agree on, the claims where they contradict each other (naming the tools), and differences in the sources they cite.';
+
+const JUDGE_SCHEMA = {
+  type: 'object',
+  properties: {
+    summary: { type: 'string' },
+    agreements: { type: 'array', items: { type: 'string' } },
+    contradictions: { type: 'array', items: { type: 'string' } },
+    source_differences: { type: 'array', items: { type: 'string' } },
+  },
+  required: ['summary', 'agreements', 'contradictions', 'source_differences'],
+  additionalProperties: false,
+};
+
+interface JudgeVerdict {
+  summary: string;
+  agreements: string[];
+  contradictions: string[];
+  source_differences: string[];
+}
+
+interface CompareOutcome {
+  tool: string;
+  model: string;
+  latencyMs: number;
+  result?: ToolResult;
+  error?: string;
+  // The thrown error, for its error category
+  failure?: unknown;
+}
+
+// Run one input through several model tools in parallel and show the answers
+// side by side, optionally followed by a judge pass over them
+async function runCompare(
+  server: McpServer,
+  toolConfigs: Record<string, ToolConfig>,
+  { input, tools, judge }: { input: string; tools: string[]; judge?: boolean },
+  extra: RequestHandlerExtra<ServerRequest, ServerNotification>,
+) {
+  const reportProgress = createProgressReporter(extra);
+  const quietExtra = { ...extra, _meta: undefined };
+
+  let finished = 0;
+  const outcomes = await Promise.all(tools.map(async (tool): Promise<CompareOutcome> => {
+    const started = Date.now();
+    const outcome: CompareOutcome = { tool, model: toolConfigs[tool].model, latencyMs: 0 };
+    try {
+      const result = await runTool(server, tool, toolConfigs[tool], { input }, quietExtra);
+      if (!isToolResult(result)) {
+        throw new Error(`${tool} requires confirmation`);
+      }
+      outcome.result = result;
+    } catch (error) {
+      outcome.error = error instanceof Error ? error.message : String(error);
+      outcome.failure = error;
+    }
+    outcome.latencyMs = Date.now() - started;
+    await reportProgress(`${tool} done (${++finished}/${tools.length})`);
+    return outcome;
+  }));
+
+  if (outcomes.every(outcome => !outcome.result)) {
+    throw new Error(
+      `Every compared tool failed: ${outcomes.map(o => `${o.tool}: ${o.error}`).join('; ')}`,
+      { cause: outcomes[0].failure },
+    );
+  }
+
+  const toolCitations = renumberSources(outcomes.map(outcome => outcome.result));
+  const toolSources = toolCitations.map(citations => [...new Set(citations.map(c => c.source))]);
+
+  const headings = outcomes.map(outcome => {
+    const usage = resultUsage(outcome.result);
+    const details = [
+      outcome.model,
+      `${(outcome.latencyMs / 1000).toFixed(1)}s`,
+      ...(usage ? [`${usage.input_tokens + usage.output_tokens} tokens`, `$${usage.cost_usd.toFixed(4)}`] : []),
+      ...(outcome.result?.structuredContent.cached ? ['cached'] : []),
+      ...(outcome.error ? [`failed: ${outcome.error}`] : []),
+    ];
+    return `### ${outcome.tool} (${details.join(', ')})`;
+  });
+
+  // Judge pass: a cheap model lists agreements, contradictions and source differences
+  let verdict: JudgeVerdict | undefined;
+  let judgeResult: ToolResult | undefined;
+  let judgeError: string | undefined;
+  const answered = outcomes.filter(outcome => outcome.result);
+  if (judge && answered.length < 2) {
+    judgeError = 'fewer than two answers to compare';
+  } else if (judge) {
+    await reportProgress('Judging answers...');
+    const judgeConfig = toolConfigs[answered[0].tool];
+    const answers = outcomes.map((outcome, index) => outcome.result
+      ? `[${outcome.tool}]\n${outcome.result.structuredContent.text}\nSources: ${toolCitations[index].length > 0 ? uniqueSources(toolCitations[index]).map(c => c.url).join(', ') : 'none'}`
+      : undefined).filter(Boolean).join('\n\n');
+    try {
+      const result = await runTool(server, 'compare', {
+        ...judgeConfig,
+        model: compareSettings.judgeModel,
+        reasoning: { effort: 'low' },
+        webSearch: undefined,
+        instructions: COMPARE_JUDGE_INSTRUCTIONS,
+      }, { input: `Question: ${input}\n\nAnswers:\n\n${answers}`, output_schema: JUDGE_SCHEMA }, quietExtra);
+      if (isToolResult(result)) {
+        judgeResult = result;
+        verdict = result.structuredContent.data as JudgeVerdict;
+      }
+    } catch (error) {
+      judgeError = error instanceof Error ? error.message : String(error);
+    }
+  }
+
+  const { text, citations } = appendAnswers(`Comparison of ${tools.join(', ')}`, outcomes.map((outcome, index) => ({
+    heading: headings[index],
+    result: outcome.result,
+    citations: toolCitations[index],
+  })));
+
+  const list = (items: string[]) => items.length > 0 ? items.map(item => `- ${item}`).join('\n') : '- none';
+  const judgeSection = verdict
+    ? `${TEXT_SEPARATOR}### Judge (${compareSettings.judgeModel})\n${verdict.summary}\n\nAgreements:\n${list(verdict.agreements)}\n\nContradictions:\n${list(verdict.contradictions)}\n\nDiffering sources:\n${list(verdict.source_differences)}`
+    : judgeError ? `${TEXT_SEPARATOR}### Judge\nSkipped: ${judgeError}` : '';
+
+  return formatToolResult(text + judgeSection, citations, {
+    tools: outcomes.map((outcome, index) => ({
+      tool: outcome.tool,
+      model: outcome.model,
+      status: outcome.result ? 'completed' : 'failed',
+      latency_ms: outcome.latencyMs,
+      ...(outcome.result ? { response_id: outcome.result.structuredContent.response_id } : {}),
+      ...(resultUsage(outcome.result) ? { usage: resultUsage(outcome.result) } : {}),
+      sources: toolSources[index],
+      ...(outcome.error ? { error: outcome.error } : {}),
+      ...(outcome.failure ? { error_code: classifyError(outcome.failure).code } : {}),
+    })),
+    ...(verdict ? { judge: verdict } : {}),
+    ...(judgeError ? { judge_error: judgeError } : {}),
+    usage: mergeUsage([...outcomes.map(o => o.result), judgeResult]),
+  });
+}
+
+// ============================================================================
+// Register Tools
+// ============================================================================
+
+// Register model tools from the registry plus the server's own tools
+function registerTools(server: McpServer, toolConfigs: Record<string, ToolConfig>) {
+  // Create all tools from configuration
+  Object.entries(toolConfigs).forEach(([name, config]) => {
+    createTool(server, name, config);
+  });
+
+  // Research fans out through a regular model tool, which must not need
+  // per-call confirmation
+  const researchConfig = toolConfigs[researchSettings.tool];
+  if (!researchConfig || researchConfig.requiresExplicitConfirmation) {
+    console.error(`gpt5-research disabled: RESEARCH_TOOL "${researchSettings.tool}" is not a registered tool without requiresExplicitConfirmation`);
+  } else {
+    server.tool(
+      'gpt5-research',
+      `Research a complex question: a cheap model splits it into sub-queries, ${researchSettings.tool} answers them in parallel, and the findings are merged into one answer with deduplicated sources and a per-sub-query appendix. Total estimated cost is limited.`,
+      {
+        input: z.string().describe('The research question, in English.'),
+        max_subqueries: z.number().int().min(1).max(researchSettings.maxSubqueries).optional().describe(`Maximum number of sub-queries (default 4, at most ${researchSettings.maxSubqueries}).`),
+        max_cost_usd: z.number().positive().optional().describe(`Estimated cost cap in USD for the whole research run (at most ${researchSettings.maxCostUsd}).`),
+      },
+      async (args, extra) => {
+        try {
+          const result = await runResearch(server, researchConfig, args, extra);
+          return saveAsResourceIfLarge('gpt5-research', researchConfig, result, clientOf(extra));
+        } catch (error) {
+          return errorResult('gpt5-research', error);
+        }
+      }
+    );
+  }
+
+  // Tools that need per-call confirmation cannot be compared
+  const comparable = Object.keys(toolConfigs).filter(name => !toolConfigs[name].requiresExplicitConfirmation);
+  const defaultCompareTools = compareSettings.tools.length > 0
+    ? compareSettings.tools.filter(name => comparable.includes(name))
+    : comparable.filter(name => toolConfigs[name].webSearch?.enabled);
+  if (comparable.length > 0) {
+    server.tool(
+      'compare',
+      'Run one question through several model tools in parallel and return the answers side by side with latency and token usage. With judge: true, a cheap model also lists agreements, contradictions and differing sources. Use as a sanity check before acting on web-sourced answers.',
+      {
+        input: z.string().describe('Ask questions, search for information, or consult about problems in English.'),
+        tools: z.array(z.enum(comparable as [string, ...string[]])).min(1).optional().describe(`Tools to compare (default: ${defaultCompareTools.join(', ') || 'none'}).`),
+        judge: z.boolean().optional().describe('Add a judge pass that highlights agreements, contradictions and differing sources.'),
+      },
+      async ({ input, tools, judge }, extra) => {
+        try {
+          const selected = [...new Set(tools ?? defaultCompareTools)];
+          if (selected.length === 0) {
+            throw new ValidationError('No tools to compare: pass tools or set COMPARE_TOOLS.');
+          }
+          const result = await runCompare(server, toolConfigs, { input, tools: selected, judge }, extra);
+          return saveAsResourceIfLarge('compare', toolConfigs[selected[0]], result, clientOf(extra));
+        } catch (error) {
+          return errorResult('compare', error);
+        }
+      }
+    );
+  }
+
+  server.tool(
+    'list_sessions',
+    'List active conversation sessions (most recently used first) with their last response id and turn count.',
+    async extra => {
+      const active = sessions.list(clientOf(extra)).map(session => ({
+        session_id: session.id,
+        tool: session.tool,
+        last_response_id: session.lastResponseId,
+        turns: session.turns,
+        created_at: new Date(session.createdAt).toISOString(),
+        updated_at: new Date(session.updatedAt).toISOString(),
+      }));
+
+      return {
+        content: [
+          {
+            type: "text",
+            text: active.length > 0
+              ? active.map(s => `${s.session_id} (${s.tool}, ${s.turns} turns, last used ${s.updated_at})`).join('\n')
+              : "No active sessions.",
+          },
+        ],
+        structuredContent: { sessions: active },
+      };
+    }
+  );
+
+  server.tool(
+    'end_session',
+    'End a conversation session so later calls with the same session_id start a new thread.',
+    {
+      session_id: z.string().describe('Session id to end.'),
+    },
+    async ({ session_id }, extra) => {
+      const ended = sessions.delete(clientOf(extra), session_id);
+      return {
+        content: [
+          {
+            type: "text",
+            text: ended ? `Session ${session_id} ended.` : `No active session ${session_id}.`,
+          },
+        ],
+      };
+    }
+  );
+
+  server.tool(
+    'submit',
+    'Start a long-running request (e.g. an expensive or high-effort tool) in the background and return a job id immediately. Poll with job_status and fetch the answer with job_result.',
+    {
+      tool: z.enum(Object.keys(toolConfigs) as [string, ...string[]]).describe('Name of the model tool to run.'),
+      input: z.string().describe('Ask questions, search for information, or consult about problems in English.'),
+      ...confirmationArgs,
+    },
+    async ({ tool, input, confirm, confirmation_token }, extra) => {
+      try {
+        const config = toolConfigs[tool];
+        const { params } = buildRequest(config, { input });
+        const gate = await checkConfirmation(server, tool, config, params, { confirm, confirmation_token });
+        if (gate) {
+          return gate;
+        }
+
+        const provider = getProvider(config);
+
+        usageLedger.checkBudget(usageSessionOf(extra));
+        const response = await withRetry(async signal => {
+          try {
+            return await provider.createResponse({ ...params, background: true, store: true }, signal);
+          } catch (error) {
+            throw toHttpError(error);
+          }
+        }, {
+          policy: retryPolicyFor(config),
+          signal: extra.signal,
+          circuit: circuitFor(provider.name, params.model),
+          acquire: signal => rateLimiter.acquire(provider.name, params.model, estimateRequestTokens(params), undefined, signal),
+        });
+
+        const job: Job = {
+          id: response.id,
+          owner: clientOf(extra),
+          tool,
+          provider: provider.name,
+          model: config.model,
+          status: response.status,
+          createdAt: Date.now(),
+          updatedAt: Date.now(),
+        };
+        jobs.save(job);
+
+        return {
+          content: [
+            {
+              type: "text",
+              text: `Submitted ${tool} job ${job.id} (status: ${job.status}). Check progress with job_status and fetch the answer with job_result.`,
+            },
+          ],
+          structuredContent: jobSummary(job),
+        };
+      } catch (error) {
+        return errorResult('submit', error);
+      }
+    }
+  );
+
+  server.tool(
+    'job_status',
+    'Check the status of a background job (queued, in_progress, completed, failed, cancelled or incomplete). Without job_id, lists all known jobs.',
+    {
+      job_id: z.string().optional().describe('Job id returned by submit.'),
+    },
+    async ({ job_id }, extra) => {
+      try {
+        if (!job_id) {
+          const all = jobs.list(clientOf(extra)).map(jobSummary);
+          return {
+            content: [
+              {
+                type: "text",
+                text: all.length > 0
+                  ? all.map(j => `${j.job_id} (${j.tool}): ${j.status}, submitted ${j.created_at}`).join('\n')
+                  : "No background jobs.",
+              },
+            ],
+            structuredContent: { jobs: all },
+          };
+        }
+
+        const job = jobs.get(job_id, clientOf(extra));
+        if (!job) {
+          throw new ValidationError(`Unknown job ${job_id}`);
+        }
+        const summary = jobSummary(await refreshJob(job, extra));
+        return {
+          content: [
+            {
+              type: "text",
+              text: `Job ${summary.job_id} (${summary.tool}): ${summary.status}`,
+            },
+          ],
+          structuredContent: summary,
+        };
+      } catch (error) {
+        return errorResult('job_status', error);
+      }
+    }
+  );
+
+  server.tool(
+    'job_result',
+    'Fetch the answer of a finished background job.',
+    {
+      job_id: z.string().describe('Job id returned by submit.'),
+    },
+    async ({ job_id }, extra) => {
+      try {
+        const stored = jobs.get(job_id, clientOf(extra));
+        if (!stored) {
+          throw new ValidationError(`Unknown job ${job_id}`);
+        }
+
+        const job = await refreshJob(stored, extra);
+        if (!job.response) {
+          return {
+            content: [
+              {
+                type: "text",
+                text: `Job ${job.id} is not finished yet (status: ${job.status}). Try again later.`,
+              },
+            ],
+            structuredContent: jobSummary(job),
+          };
+        }
+
+        if (job.status === 'failed') {
+          const failure = responseFailure(job.response);
+          throw new JobFailedError(`Job ${job.id} failed (${failure.message}). Submit it again to retry.`, { cause: failure });
+        }
+        if (job.status === 'cancelled') {
+          throw new CancelledError(`Job ${job.id} was cancelled.`);
+        }
+
+        const config = toolConfigs[job.tool];
+        const domainPolicy = config?.webSearch?.enabled ? resolveWebSearch(config.webSearch, {}).policy : undefined;
+        const output = responseOutput(job.response);
+        const result = buildToolResult(
+          output,
+          { ...jobSummary(job), ...responseStatus(job.response), response_id: job.id },
+          domainPolicy,
+          responseWarnings(job.response, output),
+        );
+        return saveAsResourceIfLarge(job.tool, config, result, clientOf(extra));
+      } catch (error) {
+        return errorResult('job_result', error);
+      }
+    }
+  );
+
+  server.tool(
+    'job_cancel',
+    'Cancel a queued or running background job.',
+    {
+      job_id: z.string().describe('Job id returned by submit.'),
+    },
+    async ({ job_id }, extra) => {
+      try {
+        const job = jobs.get(job_id, clientOf(extra));
+        if (!job) {
+          throw new ValidationError(`Unknown job ${job_id}`);
+        }
+
+        if (!FINISHED_JOB_STATUSES.includes(job.status)) {
+          const provider = getProviderByName(job.provider);
+          const response = await withRetry(async signal => {
+            try {
+              return await provider.cancelResponse(job.id, signal);
+            } catch (error) {
+              throw toHttpError(error);
+            }
+          }, { signal: extra.signal });
+          job.status = response.status;
+          if (FINISHED_JOB_STATUSES.includes(job.status)) {
+            job.response = response;
+          }
+          jobs.save(job);
+        }
+
+        return {
+          content: [
+            {
+              type: "text",
+              text: `Job ${job.id} status: ${job.status}`,
+            },
+          ],
+          structuredContent: jobSummary(job),
+        };
+      } catch (error) {
+        return errorResult('job_cancel', error);
+      }
+    }
+  );
+
+  server.tool(
+    'usage_report',
+    'Report token usage and estimated cost for this MCP session and for the whole server today (UTC), broken down by tool and model.',
+    async extra => {
+      const report = usageLedger.report(usageSessionOf(extra));
+      const line = (label: string, t: UsageTotals) =>
+        `${label}: ${t.calls} calls, ${t.input_tokens} input / ${t.output_tokens} output (${t.reasoning_tokens} reasoning) tokens, $${t.cost_usd.toFixed(4)}`;
+
+      const text = [
+        line('Session', report.session),
+        line('Today', report.today),
+        '',
+        'By tool:',
+        ...Object.entries(report.by_tool).map(([tool, totals]) => line(`  ${tool}`, totals)),
+        '',
+        'By model:',
+        ...Object.entries(report.by_model).map(([model, totals]) => line(`  ${model}`, totals)),
+      ];
+      if (report.unpriced_models.length > 0) {
+        text.push('', `No price configured for: ${report.unpriced_models.join(', ')} (counted as $0)`);
+      }
+      const drift = schemaDrift.snapshot();
+      if (drift.responses > 0) {
+        text.push('', `Schema drift: ${drift.responses} response(s) did not match the expected schema at ${Object.keys(drift.by_path).join(', ')}`);
+      }
+
+      return {
+        content: [
+          {
+            type: "text",
+            text: text.join('\n'),
+          },
+        ],
+        structuredContent: { ...report, schema_drift: drift },
+      };
+    }
+  );
+
+  server.tool(
+    'cache_stats',
+    'Show response cache statistics: store type, entry count, TTL, hits and misses.',
+    async () => {
+      const stats = responseCache
+        ? {
+            enabled: true,
+            store: responseCache.store.kind,
+            entries: await responseCache.store.size(),
+            ttl_minutes: responseCache.ttlMs / 60000,
+            hits: responseCache.hits,
+            misses: responseCache.misses,
+          }
+        : { enabled: false };
+
+      return {
+        content: [
+          {
+            type: "text",
+            text: JSON.stringify(stats, null, 2),
+          },
+        ],
+        structuredContent: stats,
+      };
+    }
+  );
+
+  server.tool(
+    'cache_clear',
+    'Remove all entries from the response cache.',
+    async () => {
+      const removed = responseCache ? await responseCache.store.clear() : 0;
+      return {
+        content: [
+          {
+            type: "text",
+            text: responseCache ? `Removed ${removed} cached responses.` : "Response cache is disabled.",
+          },
+        ],
+      };
+    }
+  );
+}
+
+// Create a server instance with all tools registered. Sessions, jobs, saved
+// outputs, cache and usage accounting are module-level, so every instance
+// shares them; sessions, jobs and outputs are kept apart per client.
+function createServer(toolConfigs: Record<string, ToolConfig>): McpServer {
+  const server = new McpServer({
+    name: SERVER_NAME,
+    version: SERVER_VERSION,
+  });
+  registerTools(server, toolConfigs);
+  registerOutputResources(server);
+  registerPrompts(server);
+  return server;
+}
+
+// ============================================================================
+// HTTP Transport
+// ============================================================================
+
+interface HttpServerOptions {
+  host: string;
+  port: number;
+  // Accepted bearer tokens; empty means no authentication
+  authTokens: string[];
+  // Hostnames accepted in the Host header (DNS rebinding protection); empty
+  // means loopback names when listening on a loopback address, else any host
+  allowedHosts: string[];
+  maxBodyBytes: number;
+  // Close MCP sessions with no request in flight for this long
+  sessionIdleMs: number;
+}
+
+const LOOPBACK_HOSTNAMES = ['localhost', '127.0.0.1', '[::1]'];
+
+// Hostname of a Host header, without the port
+function hostnameOf(hostHeader: string | undefined): string | undefined {
+  try {
+    return hostHeader ? new URL(`http://${hostHeader}`).hostname : undefined;
+  } catch {
+    return undefined;
+  }
+}
+
+// Hostnames to accept, or undefined to accept any Host header
+function acceptedHostnames(options: HttpServerOptions): string[] | undefined {
+  if (options.allowedHosts.length > 0) {
+    return options.allowedHosts.map(host => host.toLowerCase());
+  }
+  const listenHost = hostnameOf(options.host.includes(':') ? `[${options.host}]` : options.host);
+  return listenHost && LOOPBACK_HOSTNAMES.includes(listenHost) ? LOOPBACK_HOSTNAMES : undefined;
+}
+
+class PayloadTooLargeError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'PayloadTooLargeError';
+  }
+}
+
+function bearerToken(header: string | undefined): string | undefined {
+  return /^Bearer\s+(.+)$/i.exec(header || '')?.[1].trim();
+}
+
+// Constant-time check of the Authorization header against the accepted tokens
+function isAuthorized(header: string | undefined, tokens: string[]): boolean {
+  if (tokens.length === 0) {
+    return true;
+  }
+
+  const token = bearerToken(header);
+  if (!token) {
+    return false;
+  }
+
+  const presented = Buffer.from(token);
+  return tokens.some(token => {
+    const expected = Buffer.from(token);
+    return expected.length === presented.length && timingSafeEqual(expected, presented);
+  });
+}
+
+function sendJson(res: http.ServerResponse, status: number, body: unknown, headers: Record<string, string> = {}) {
+  res.writeHead(status, { 'Content-Type': 'application/json', ...headers });
+  res.end(JSON.stringify(body));
+}
+
+// JSON-RPC error response for requests rejected before reaching a transport
+function sendJsonRpcError(res: http.ServerResponse, status: number, message: string, headers: Record<string, string> = {}) {
+  sendJson(res, status, { jsonrpc: "2.0", error: { code: -32000, message }, id: null }, headers);
+}
+
+async function readJsonBody(req: http.IncomingMessage, maxBytes: number): Promise<unknown> {
+  const tooLarge = () => new PayloadTooLargeError(`Request body is larger than ${maxBytes} bytes`);
+  if (parseInt(req.headers['content-length'] || '') > maxBytes) {
+    throw tooLarge();
+  }
+
+  const chunks: Buffer[] = [];
+  let size = 0;
+  for await (const chunk of req) {
+    size += (chunk as Buffer).length;
+    if (size > maxBytes) {
+      throw tooLarge();
+    }
+    chunks.push(chunk as Buffer);
+  }
+  const raw = Buffer.concat(chunks).toString('utf-8');
+  return raw ? JSON.parse(raw) : undefined;
+}
+
+// Serve MCP over Streamable HTTP at /mcp, with one server instance per MCP
+// session, bearer-token auth and an unauthenticated /health endpoint.
+// Resolves with the port listened on and a function that shuts everything
+// down gracefully.
+async function startHttpServer(
+  toolConfigs: Record<string, ToolConfig>,
+  options: HttpServerOptions,
+): Promise<{ port: number; close: () => Promise<void> }> {
+  const transports = new Map<string, StreamableHTTPServerTransport>();
+  const hostnames = acceptedHostnames(options);
+
+  // Per session: when its last request ended, and how many are still open
+  // (a GET notification stream stays open for as long as the client listens)
+  const activity = new Map<string, { lastActiveAt: number; openRequests: number }>();
+  const idleSweep = setInterval(() => {
+    const cutoff = Date.now() - options.sessionIdleMs;
+    for (const [id, session] of activity) {
+      if (session.openRequests === 0 && session.lastActiveAt < cutoff) {
+        activity.delete(id);
+        transports.get(id)?.close().catch(error => console.error(`Failed to close idle session ${id}:`, error));
+      }
+    }
+  }, Math.min(options.sessionIdleMs, 60_000));
+  idleSweep.unref();
+
+  const trackRequest = (sessionId: string, res: http.ServerResponse) => {
+    const session = activity.get(sessionId) ?? { lastActiveAt: Date.now(), openRequests: 0 };
+    activity.set(sessionId, session);
+    session.openRequests++;
+    res.once('close', () => {
+      session.openRequests--;
+      session.lastActiveAt = Date.now();
+    });
+  };
+
+  const httpServer = http.createServer(async (req, res) => {
+    const url = new URL(req.url || '/', `http://${req.headers.host || 'localhost'}`);
+
+    try {
+      if (url.pathname === '/health' && req.method === 'GET') {
+        sendJson(res, 200, {
+          status: 'ok',
+          name: SERVER_NAME,
+          version: SERVER_VERSION,
+          sessions: transports.size,
+          schema_drift: schemaDrift.snapshot(),
+        });
+        return;
+      }
+
+      if (url.pathname !== '/mcp') {
+        sendJson(res, 404, { error: 'Not found' });
+        return;
+      }
+
+      // Reject requests whose Host header a DNS rebinding attack would produce
+      const hostname = hostnameOf(req.headers.host);
+      if (hostnames && (!hostname || !hostnames.includes(hostname))) {
+        sendJsonRpcError(res, 403, `Invalid Host header: ${req.headers.host ?? '(none)'}`);
+        return;
+      }
+
+      if (!isAuthorized(req.headers.authorization, options.authTokens)) {
+        sendJsonRpcError(res, 401, 'Unauthorized', { 'WWW-Authenticate': 'Bearer' });
+        return;
+      }
+      // Handlers tell clients apart by their token (see clientOf)
+      const token = bearerToken(req.headers.authorization);
+      if (options.authTokens.length > 0 && token) {
+        Object.assign(req, {
+          auth: { token, clientId: createHash('sha256').update(token).digest('hex').slice(0, 16), scopes: [] },
+        });
+      }
+
+      const sessionId = req.headers['mcp-session-id'] as string | undefined;
+      const body = req.method === 'POST' ? await readJsonBody(req, options.maxBodyBytes) : undefined;
+
+      let transport = sessionId ? transports.get(sessionId) : undefined;
+      if (!transport) {
+        if (sessionId || req.method !== 'POST' || !isInitializeRequest(body)) {
+          sendJsonRpcError(res, 400, sessionId ? 'Unknown or expired session' : 'Bad Request: no valid session ID provided');
+          return;
+        }
+
+        // New MCP session: a fresh transport and server instance
+        const newTransport = new StreamableHTTPServerTransport({
+          sessionIdGenerator: () => randomUUID(),
+          onsessioninitialized: id => {
+            transports.set(id, newTransport);
+            trackRequest(id, res);
+          },
+        });
+        newTransport.onclose = () => {
+          if (newTransport.sessionId) {
+            transports.delete(newTransport.sessionId);
+            activity.delete(newTransport.sessionId);
+          }
+        };
+        await createServer(toolConfigs).connect(newTransport);
+        transport = newTransport;
+      } else {
+        trackRequest(sessionId!, res);
+      }
+
+      await transport.handleRequest(req, res, body);
+    } catch (error) {
+      if (error instanceof PayloadTooLargeError) {
+        sendJsonRpcError(res, 413, error.message, { Connection: 'close' });
+        return;
+      }
+      console.error("Error handling HTTP request:", error);
+      if (!res.headersSent) {
+        sendJsonRpcError(res, error instanceof SyntaxError ? 400 : 500, error instanceof SyntaxError ? 'Invalid JSON body' : 'Internal server error');
+      }
+    }
+  });
+
+  await new Promise<void>((resolve, reject) => {
+    httpServer.once('error', reject);
+    httpServer.listen(options.port, options.host, () => resolve());
+  });
+
+  return {
+    port: (httpServer.address() as AddressInfo).port,
+    close: async () => {
+      clearInterval(idleSweep);
+      await Promise.all([...transports.values()].map(transport => transport.close()));
+      await new Promise<void>(resolve => httpServer.close(() => resolve()));
+    },
+  };
+}
+
+// ============================================================================
+// Main Function
+// ============================================================================
+
+async function main() {
+  const argv = minimist(process.argv.slice(2), { string: ['config', 'transport', 'host', 'port', 'allowed-hosts'] });
+  const toolConfigs = loadToolConfigs(argv.config || process.env.GPT5_TOOLS_CONFIG);
+  promptTemplates = loadPromptTemplates(argv.config || process.env.GPT5_TOOLS_CONFIG);
+  usageLedger = new UsageLedger(
+    loadModelPrices(),
+    parseBudget(process.env.DAILY_BUDGET_USD),
+    parseBudget(process.env.SESSION_BUDGET_USD),
+  );
+  outputs = new OutputStore(
+    process.env.OUTPUTS_DIR || path.join(os.homedir(), '.cache', 'gpt5-search-mcp', 'outputs'),
+    (parseInt(process.env.OUTPUT_RETENTION_DAYS || '') || 30) * 24 * 60 * 60 * 1000,
+    parseInt(process.env.OUTPUT_MAX_COUNT || '') || 200,
+  );
+  rateLimiter = new RateLimiter(
+    loadRateLimits(),
+    parseInt(process.env.MAX_CONCURRENT_REQUESTS || '') || 4,
+    parseInt(process.env.MAX_QUEUED_REQUESTS || '') || 100,
+  );
+  jobs = new JobStore(
+    process.env.JOBS_FILE || path.join(os.homedir(), '.cache', 'gpt5-search-mcp', 'jobs.json'),
+    (parseInt(process.env.JOB_RETENTION_DAYS || '') || 7) * 24 * 60 * 60 * 1000,
+  );
+
+  const transportType = argv.transport || process.env.MCP_TRANSPORT || 'stdio';
+  if (transportType !== 'stdio' && transportType !== 'http') {
+    throw new ConfigError(`Invalid transport "${transportType}". Use "stdio" or "http".`);
+  }
+
+  let endpoint = 'stdio';
+  if (transportType === 'http') {
+    const options: HttpServerOptions = {
+      host: argv.host || process.env.MCP_HOST || '127.0.0.1',
+      port: parseInt(argv.port || process.env.MCP_PORT || '') || 3000,
+      authTokens: (process.env.MCP_AUTH_TOKENS || '').split(',').map(token => token.trim()).filter(Boolean),
+      allowedHosts: (argv['allowed-hosts'] || process.env.MCP_ALLOWED_HOSTS || '').split(',').map((host: string) => host.trim()).filter(Boolean),
+      maxBodyBytes: parseInt(process.env.MCP_MAX_BODY_BYTES || '') || 64 * 1024 * 1024,
+      sessionIdleMs: (parseInt(process.env.MCP_SESSION_IDLE_MINUTES || '') || 30) * 60 * 1000,
+    };
+    const { port, close: shutdown } = await startHttpServer(toolConfigs, options);
+    endpoint = `http://${options.host}:${port}/mcp`;
+
+    // Graceful shutdown: close MCP sessions, then stop accepting connections
+    const onSignal = (signal: string) => {
+      process.stderr.write(`Received ${signal}, shutting down...\n`);
+      shutdown().then(
+        () => process.exit(0),
+        error => {
+          console.error("Error during shutdown:", error);
+          process.exit(1);
+        },
+      );
+    };
+    process.once('SIGINT', onSignal);
+    process.once('SIGTERM', onSignal);
+
+    if (options.authTokens.length === 0) {
+      process.stderr.write("Warning: MCP_AUTH_TOKENS is not set. The HTTP endpoint accepts unauthenticated clients.\n");
+    }
+  } else {
+    const transport = new StdioServerTransport();
+    await createServer(toolConfigs).connect(transport);
+  }
+  
+  // Check API key after connection is established
+  const usesOpenAI = Object.values(toolConfigs).some(config => providerName(config) === 'openai');
+  if (usesOpenAI && !process.env.OPENAI_API_KEY) {
+    process.stderr.write("Warning: OPENAI_API_KEY environment variable is not set. Tools will fail without it.\n");
+  }
+  
   // Use stderr for logging to avoid interfering with stdio protocol
-  process.stderr.write("GPT-5/5.2 MCP Server running on stdio (v0.0.3)\n");
+  process.stderr.write(`GPT-5/5.2 MCP Server running on ${endpoint} (v${SERVER_VERSION})\n`);
+}
+
+// Start the server only when run as a program, not when imported by the tests
+if (process.argv[1] && fs.realpathSync(process.argv[1]) === fileURLToPath(import.meta.url)) {
+  main().catch((error) => {
+    if (error instanceof ConfigError) {
+      console.error(error.message);
+      process.exit(1);
+    }
+    console.error("Fatal error in main():", error);
+    process.exit(1);
+  });
 }
 
-main().catch((error) => {
-  console.error("Fatal error in main():", error);
-  process.exit(1);
-});
\ No newline at end of file
+// Internals covered by the unit tests in test/
+export {
+  CancelledError,
+  CircuitBreaker,
+  CircuitOpenError,
+  classifyError,
+  consumeResponseStream,
+  decodeMediaData,
+  HttpError,
+  loadToolConfigs,
+  mediaLimits,
+  parseRetryAfter,
+  QueueFullError,
+  RateLimiter,
+  resolveAttachments,
+  resolveMedia,
+  resolveWorkspaceFile,
+  sniffMediaType,
+  startHttpServer,
+  TimeoutError,
+  ValidationError,
+  withRetry,
+};
\ No newline at end of file
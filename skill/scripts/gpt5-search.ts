@@ -34,6 +34,102 @@ const defaultConfig: Config = {
   webSearch: true,
 };
 
+// ============================================================================
+// Error Handling
+// ============================================================================
+
+// Same error categories as the MCP server's structuredContent.error.code
+type ErrorCode =
+  | 'quota'
+  | 'rate_limit'
+  | 'auth'
+  | 'upstream_unavailable'
+  | 'validation'
+  | 'timeout'
+  | 'content_filter';
+
+class GPTError extends Error {
+  constructor(
+    message: string,
+    public code: ErrorCode,
+    public retryable: boolean,
+    public retryAfterMs?: number,
+  ) {
+    super(message);
+    this.name = 'GPTError';
+  }
+}
+
+// Exit status for errors that may succeed if retried later (EX_TEMPFAIL)
+const EXIT_RETRYABLE = 75;
+
+const CONTENT_FILTER_CODES = ['content_filter', 'content_policy_violation'];
+
+// Delay asked for by retry-after-ms, or by retry-after in seconds or as an HTTP date
+function parseRetryAfter(headers: any): number | undefined {
+  const milliseconds = parseFloat(headers?.get?.('retry-after-ms') ?? '');
+  if (milliseconds >= 0) {
+    return milliseconds;
+  }
+  const value = headers?.get?.('retry-after');
+  if (!value) {
+    return undefined;
+  }
+  const seconds = Number(value);
+  if (Number.isFinite(seconds)) {
+    return Math.max(0, seconds * 1000);
+  }
+  const date = Date.parse(value);
+  return Number.isNaN(date) ? undefined : Math.max(0, date - Date.now());
+}
+
+// Sort an OpenAI SDK error into the error taxonomy; other errors pass through unchanged
+function toGPTError(error: any): unknown {
+  const errorType = error?.error?.type || error?.type;
+  const errorCode = error?.error?.code || error?.code;
+  const status = error?.status;
+
+  if (errorType === 'insufficient_quota' || errorCode === 'insufficient_quota') {
+    return new GPTError('Insufficient OpenAI credits. Please check your billing at https://platform.openai.com/account/billing', 'quota', false);
+  }
+
+  if (CONTENT_FILTER_CODES.includes(errorCode) || CONTENT_FILTER_CODES.includes(errorType)) {
+    return new GPTError(`Blocked by the content filter: ${error.message}`, 'content_filter', false);
+  }
+
+  if (status === 429) {
+    const retryAfterMs = parseRetryAfter(error?.headers);
+    return new GPTError(
+      `Rate limited. ${retryAfterMs !== undefined ? `Please retry after ${retryAfterMs / 1000} seconds.` : 'Please try again later.'}`,
+      'rate_limit',
+      true,
+      retryAfterMs,
+    );
+  }
+
+  if (status === 401 || status === 403) {
+    return new GPTError('Authentication failed. Please check your OPENAI_API_KEY.', 'auth', false);
+  }
+
+  if (status >= 500) {
+    return new GPTError('OpenAI service is temporarily unavailable. Please try again later.', 'upstream_unavailable', true, parseRetryAfter(error?.headers));
+  }
+
+  if (error instanceof OpenAI.APIConnectionTimeoutError) {
+    return new GPTError('Request timed out. Please try again later.', 'timeout', true);
+  }
+
+  if (error instanceof OpenAI.APIConnectionError) {
+    return new GPTError('Could not reach OpenAI. Please try again later.', 'upstream_unavailable', true);
+  }
+
+  if (status >= 400) {
+    return new GPTError(`Error (${status}): ${error.message}`, 'validation', false);
+  }
+
+  return error;
+}
+
 // ============================================================================
 // Argument Parsing
 // ============================================================================
@@ -139,7 +235,7 @@ Examples:
 
 async function queryGPT(query: string, config: Config): Promise<string> {
   if (!process.env.OPENAI_API_KEY) {
-    throw new Error('OPENAI_API_KEY environment variable is not set');
+    throw new GPTError('OPENAI_API_KEY environment variable is not set', 'auth', false);
   }
 
   const openai = new OpenAI({
@@ -177,29 +273,8 @@ async function queryGPT(query: string, config: Config): Promise<string> {
       .map((content: any) => content.text);
 
     return texts.join('\n\n') || "No response text available.";
-  } catch (error: any) {
-    // Handle specific error types
-    const errorType = error?.error?.type || error?.type;
-    const errorCode = error?.error?.code || error?.code;
-    const status = error?.status;
-
-    if (errorType === 'insufficient_quota' || errorCode === 'insufficient_quota') {
-      throw new Error('Insufficient OpenAI credits. Please check your billing at https://platform.openai.com/account/billing');
-    }
-
-    if (status === 429) {
-      throw new Error('Rate limited. Please try again later.');
-    }
-
-    if (status === 401) {
-      throw new Error('Authentication failed. Please check your OPENAI_API_KEY.');
-    }
-
-    if (status >= 500) {
-      throw new Error('OpenAI service is temporarily unavailable. Please try again later.');
-    }
-
-    throw error;
+  } catch (error) {
+    throw toGPTError(error);
   }
 }
 
@@ -255,6 +330,10 @@ async function main(): Promise<void> {
     const result = await queryGPT(query, config);
     console.log(result);
   } catch (error) {
+    if (error instanceof GPTError) {
+      console.error(`Error [${error.code}${error.retryable ? ', retryable' : ''}]: ${error.message}`);
+      process.exit(error.retryable ? EXIT_RETRYABLE : 1);
+    }
     console.error(`Error: ${error instanceof Error ? error.message : 'Unknown error'}`);
     process.exit(1);
   }
@@ -0,0 +1,60 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import { resolveAttachments, ValidationError } from '../index.js';
+
+let root: string;
+
+function write(relative: string, content = 'text') {
+  const file = path.join(root, relative);
+  fs.mkdirSync(path.dirname(file), { recursive: true });
+  fs.writeFileSync(file, content);
+}
+
+beforeEach(() => {
+  root = fs.realpathSync(fs.mkdtempSync(path.join(os.tmpdir(), 'gpt5-attachments-')));
+  process.env.WORKSPACE_ROOT = root;
+});
+
+afterEach(() => {
+  delete process.env.WORKSPACE_ROOT;
+  fs.rmSync(root, { recursive: true, force: true });
+});
+
+describe('resolveAttachments', () => {
+  it('applies nested .gitignore files relative to their own directory', async () => {
+    write('.gitignore', '*.log\n');
+    write('pkg/.gitignore', 'generated/\n!keep.log\n');
+    write('app.log');
+    write('pkg/keep.log');
+    write('pkg/generated/out.ts');
+    write('pkg/src/index.ts');
+    write('generated/top.ts');
+
+    const { attachments, skipped } = await resolveAttachments([], ['**/*']);
+
+    expect(attachments.map(a => a.path)).toEqual(['generated/top.ts', 'pkg/keep.log', 'pkg/src/index.ts']);
+    expect(skipped).toEqual([
+      { path: 'app.log', reason: 'ignored by .gitignore' },
+      { path: 'pkg/generated/out.ts', reason: 'ignored by .gitignore' },
+    ]);
+  });
+
+  it('rejects the workspace root and directories as file paths', async () => {
+    write('src/index.ts');
+
+    for (const file of ['.', '', './', 'src']) {
+      await expect(resolveAttachments([file], [])).rejects.toBeInstanceOf(ValidationError);
+    }
+  });
+
+  it('accepts names that start with ".." but rejects paths that leave the root', async () => {
+    write('..env.example', 'KEY=value');
+
+    const { attachments } = await resolveAttachments(['..env.example'], []);
+    expect(attachments).toEqual([{ path: '..env.example', content: 'KEY=value' }]);
+
+    await expect(resolveAttachments(['../outside.txt'], [])).rejects.toThrow('outside the workspace root');
+  });
+});
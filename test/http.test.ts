@@ -0,0 +1,102 @@
+import * as http from 'http';
+import { Client } from '@modelcontextprotocol/sdk/client/index.js';
+import { StreamableHTTPClientTransport } from '@modelcontextprotocol/sdk/client/streamableHttp.js';
+import { afterAll, beforeAll, describe, expect, it } from 'vitest';
+import { loadToolConfigs, startHttpServer } from '../index.js';
+
+const TOKEN = 'test-token';
+
+let server: { port: number; close: () => Promise<void> };
+let base: string;
+
+beforeAll(async () => {
+  server = await startHttpServer(loadToolConfigs(undefined), {
+    host: '127.0.0.1',
+    port: 0,
+    authTokens: [TOKEN],
+    allowedHosts: [],
+    maxBodyBytes: 1000,
+    sessionIdleMs: 60_000,
+  });
+  base = `http://127.0.0.1:${server.port}`;
+});
+
+afterAll(async () => {
+  await server.close();
+});
+
+// fetch() does not let a caller set the Host header, so send raw requests
+function request(options: http.RequestOptions, body?: string): Promise<{ status: number; body: string }> {
+  return new Promise((resolve, reject) => {
+    const req = http.request({ host: '127.0.0.1', port: server.port, ...options }, res => {
+      let data = '';
+      res.on('data', chunk => { data += chunk; });
+      res.on('end', () => resolve({ status: res.statusCode!, body: data }));
+    });
+    req.on('error', reject);
+    req.end(body);
+  });
+}
+
+const initialize = JSON.stringify({
+  jsonrpc: '2.0',
+  id: 1,
+  method: 'initialize',
+  params: { protocolVersion: '2025-03-26', capabilities: {}, clientInfo: { name: 'test', version: '1' } },
+});
+
+describe('HTTP transport', () => {
+  it('serves /health without a token', async () => {
+    const res = await fetch(`${base}/health`);
+    expect(res.status).toBe(200);
+    expect(await res.json()).toMatchObject({ status: 'ok' });
+  });
+
+  it('rejects a missing or wrong token', async () => {
+    for (const headers of [{}, { Authorization: 'Bearer wrong-token' }]) {
+      const res = await fetch(`${base}/mcp`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json', Accept: 'application/json, text/event-stream', ...headers },
+        body: initialize,
+      });
+      expect(res.status).toBe(401);
+      expect(res.headers.get('www-authenticate')).toBe('Bearer');
+    }
+  });
+
+  it('rejects a body over the size limit', async () => {
+    const res = await request({
+      method: 'POST',
+      path: '/mcp',
+      headers: { 'Content-Type': 'application/json', Authorization: `Bearer ${TOKEN}` },
+    }, JSON.stringify({ padding: 'x'.repeat(2000) }));
+    expect(res.status).toBe(413);
+  });
+
+  it('rejects a Host header a DNS rebinding attack would send', async () => {
+    const res = await request({
+      method: 'POST',
+      path: '/mcp',
+      headers: { Host: 'evil.example:80', 'Content-Type': 'application/json', Authorization: `Bearer ${TOKEN}` },
+    }, initialize);
+    expect(res.status).toBe(403);
+
+    const local = await request({ method: 'GET', path: '/mcp', headers: { Host: `localhost:${server.port}` } });
+    expect(local.status).toBe(401);
+  });
+
+  it('initializes a session and lists tools', async () => {
+    const client = new Client({ name: 'test', version: '1' });
+    const transport = new StreamableHTTPClientTransport(new URL(`${base}/mcp`), {
+      requestInit: { headers: { Authorization: `Bearer ${TOKEN}` } },
+    });
+    await client.connect(transport);
+    try {
+      expect(transport.sessionId).toBeTruthy();
+      const { tools } = await client.listTools();
+      expect(tools.map(tool => tool.name)).toEqual(expect.arrayContaining(['gpt5-search', 'list_sessions', 'submit']));
+    } finally {
+      await client.close();
+    }
+  });
+});
@@ -0,0 +1,149 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import {
+  decodeMediaData,
+  mediaLimits,
+  resolveMedia,
+  resolveWorkspaceFile,
+  sniffMediaType,
+  ValidationError,
+} from '../index.js';
+
+const samples = {
+  png: Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a, 0, 0, 0, 0x0d]),
+  jpeg: Buffer.from([0xff, 0xd8, 0xff, 0xe0, 0, 0x10]),
+  gif: Buffer.from('GIF89a\x01\x00\x01\x00', 'latin1'),
+  webp: Buffer.from('RIFF\x24\x00\x00\x00WEBPVP8 ', 'latin1'),
+  pdf: Buffer.from('%PDF-1.7\n%\xe2\xe3\xcf\xd3\n', 'latin1'),
+};
+
+describe('sniffMediaType', () => {
+  it.each([
+    ['png', 'image/png', 'image'],
+    ['jpeg', 'image/jpeg', 'image'],
+    ['gif', 'image/gif', 'image'],
+    ['webp', 'image/webp', 'image'],
+    ['pdf', 'application/pdf', 'pdf'],
+  ] as const)('detects %s', (sample, mimeType, kind) => {
+    expect(sniffMediaType(samples[sample])).toEqual({ mimeType, kind });
+  });
+
+  it('returns undefined for other content', () => {
+    expect(sniffMediaType(Buffer.from('plain text'))).toBeUndefined();
+    expect(sniffMediaType(Buffer.from('RIFF\x24\x00\x00\x00WAVEfmt ', 'latin1'))).toBeUndefined();
+  });
+});
+
+describe('decodeMediaData', () => {
+  it('decodes raw base64, ignoring whitespace', () => {
+    const base64 = samples.png.toString('base64');
+    const { buffer, declaredType } = decodeMediaData(`${base64.slice(0, 8)}\n${base64.slice(8)}`);
+    expect(buffer.equals(samples.png)).toBe(true);
+    expect(declaredType).toBeUndefined();
+  });
+
+  it('decodes a data URL and reports its MIME type as declared', () => {
+    const { buffer, declaredType } = decodeMediaData(`data:application/pdf;name=a.pdf;base64,${samples.pdf.toString('base64')}`);
+    expect(buffer.equals(samples.pdf)).toBe(true);
+    expect(declaredType).toBe('application/pdf');
+  });
+
+  it('rejects invalid base64', () => {
+    expect(() => decodeMediaData('not base64!')).toThrow(ValidationError);
+    expect(() => decodeMediaData('data:image/png;base64,@@@')).toThrow('not valid base64');
+  });
+});
+
+describe('resolveMedia', () => {
+  const defaults = { ...mediaLimits };
+  afterEach(() => Object.assign(mediaLimits, defaults));
+
+  it('returns sniffed type, size and a default filename', () => {
+    const [media] = resolveMedia([{ data: samples.jpeg.toString('base64'), mimeType: 'image/jpg' }]);
+    expect(media).toMatchObject({ kind: 'image', mimeType: 'image/jpeg', filename: 'media-1.jpeg', source: 'media[0]', bytes: samples.jpeg.length });
+  });
+
+  it('rejects a declared type that does not match the content', () => {
+    expect(() => resolveMedia([{ data: samples.png.toString('base64'), mimeType: 'image/jpeg' }]))
+      .toThrow('Media "media[0]" is declared as image/jpeg but its content is image/png.');
+    expect(() => resolveMedia([{ data: `data:application/pdf;base64,${samples.gif.toString('base64')}` }]))
+      .toThrow('declared as application/pdf but its content is image/gif');
+  });
+
+  it('rejects unsupported content', () => {
+    expect(() => resolveMedia([{ data: Buffer.from('hello').toString('base64') }])).toThrow('is not a supported type');
+  });
+
+  it('applies separate size limits to images and PDFs', () => {
+    mediaLimits.maxImageBytes = samples.png.length - 1;
+    mediaLimits.maxPdfBytes = 1000;
+    expect(() => resolveMedia([{ data: samples.png.toString('base64') }]))
+      .toThrow(`Media "media[0]" is larger than ${samples.png.length - 1} bytes.`);
+    expect(resolveMedia([{ data: samples.pdf.toString('base64') }])).toHaveLength(1);
+
+    mediaLimits.maxPdfBytes = samples.pdf.length - 1;
+    expect(() => resolveMedia([{ data: samples.pdf.toString('base64') }])).toThrow('is larger than');
+  });
+
+  it('limits the number of items', () => {
+    mediaLimits.maxItems = 1;
+    const item = { data: samples.png.toString('base64') };
+    expect(() => resolveMedia([item, item])).toThrow('Too many media items: at most 1 can be attached.');
+  });
+});
+
+describe('resolveWorkspaceFile', () => {
+  let root: string;
+  let outside: string;
+
+  beforeEach(() => {
+    root = fs.realpathSync(fs.mkdtempSync(path.join(os.tmpdir(), 'gpt5-media-')));
+    outside = fs.realpathSync(fs.mkdtempSync(path.join(os.tmpdir(), 'gpt5-outside-')));
+    process.env.WORKSPACE_ROOT = root;
+    fs.writeFileSync(path.join(root, 'shot.png'), samples.png);
+    fs.writeFileSync(path.join(root, '..shot.png'), samples.png);
+    fs.writeFileSync(path.join(outside, 'secret.png'), samples.png);
+  });
+
+  afterEach(() => {
+    delete process.env.WORKSPACE_ROOT;
+    fs.rmSync(root, { recursive: true, force: true });
+    fs.rmSync(outside, { recursive: true, force: true });
+  });
+
+  it('resolves files inside the root, including names that start with ".."', () => {
+    expect(resolveWorkspaceFile('shot.png')).toBe(path.join(root, 'shot.png'));
+    expect(resolveWorkspaceFile('..shot.png')).toBe(path.join(root, '..shot.png'));
+  });
+
+  it('rejects relative and absolute paths that escape the root', () => {
+    const escape = path.relative(root, path.join(outside, 'secret.png'));
+    expect(() => resolveWorkspaceFile(escape)).toThrow('is outside the workspace root');
+    expect(() => resolveWorkspaceFile(path.join(outside, 'secret.png'))).toThrow('is outside the workspace root');
+  });
+
+  it('rejects symlinks that point outside the root', () => {
+    fs.symlinkSync(path.join(outside, 'secret.png'), path.join(root, 'link.png'));
+    expect(() => resolveWorkspaceFile('link.png')).toThrow('is outside the workspace root');
+  });
+
+  it('reports missing files and disabled workspaces', () => {
+    expect(() => resolveWorkspaceFile('missing.png')).toThrow('File "missing.png" not found.');
+    delete process.env.WORKSPACE_ROOT;
+    expect(() => resolveWorkspaceFile('shot.png')).toThrow('Local media paths are disabled');
+  });
+
+  it('rejects a media path that is a directory', () => {
+    fs.mkdirSync(path.join(root, 'shots'));
+    expect(() => resolveMedia([{ path: 'shots' }])).toThrow(ValidationError);
+    expect(() => resolveMedia([{ path: 'shots' }])).toThrow('Media "shots" is not a regular file.');
+  });
+
+  it('names a workspace root that does not exist', () => {
+    process.env.WORKSPACE_ROOT = path.join(outside, 'gone');
+    expect(() => resolveWorkspaceFile('shot.png')).toThrow(ValidationError);
+    expect(() => resolveWorkspaceFile('shot.png')).toThrow(`Workspace root "${path.join(outside, 'gone')}" (WORKSPACE_ROOT) does not exist on the server.`);
+  });
+});
@@ -0,0 +1,51 @@
+import { describe, expect, it } from 'vitest';
+import { CancelledError, QueueFullError, RateLimiter } from '../index.js';
+
+describe('RateLimiter', () => {
+  it('hands a released slot to the next queued call', async () => {
+    const limiter = new RateLimiter({}, 1, 5);
+    const first = await limiter.acquire('openai', 'gpt-5', 10);
+    const second = limiter.acquire('openai', 'gpt-5', 10);
+    first.release();
+    await expect(second).resolves.toHaveProperty('release');
+  });
+
+  it('rejects queueing beyond maxQueued', async () => {
+    const limiter = new RateLimiter({}, 1, 1);
+    await limiter.acquire('openai', 'gpt-5', 10);
+    limiter.acquire('openai', 'gpt-5', 10).catch(() => {});
+    await expect(limiter.acquire('openai', 'gpt-5', 10)).rejects.toBeInstanceOf(QueueFullError);
+  });
+
+  it('removes a cancelled call from the slot queue', async () => {
+    const limiter = new RateLimiter({}, 1, 1);
+    const first = await limiter.acquire('openai', 'gpt-5', 10);
+    const controller = new AbortController();
+    const cancelled = limiter.acquire('openai', 'gpt-5', 10, undefined, controller.signal);
+    controller.abort();
+    await expect(cancelled).rejects.toBeInstanceOf(CancelledError);
+
+    // The queue has room again, and the released slot goes to the live waiter
+    const next = limiter.acquire('openai', 'gpt-5', 10);
+    first.release();
+    const slot = await next;
+    slot.release();
+    await expect(limiter.acquire('openai', 'gpt-5', 10)).resolves.toHaveProperty('release');
+  });
+
+  it('stops waiting for the token budget when cancelled', async () => {
+    const limiter = new RateLimiter({ default: { tpm: 60 } }, 5, 5);
+    (await limiter.acquire('openai', 'gpt-5', 60)).release();
+    const controller = new AbortController();
+    const waiting = limiter.acquire('openai', 'gpt-5', 60, undefined, controller.signal);
+    controller.abort();
+    await expect(waiting).rejects.toBeInstanceOf(CancelledError);
+  });
+
+  it('rejects an already cancelled call without queueing it', async () => {
+    const limiter = new RateLimiter({}, 1, 5);
+    const controller = new AbortController();
+    controller.abort();
+    await expect(limiter.acquire('openai', 'gpt-5', 10, undefined, controller.signal)).rejects.toBeInstanceOf(CancelledError);
+  });
+});
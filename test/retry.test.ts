@@ -0,0 +1,305 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import {
+  CancelledError,
+  CircuitBreaker,
+  CircuitOpenError,
+  HttpError,
+  parseRetryAfter,
+  QueueFullError,
+  RateLimiter,
+  TimeoutError,
+  withRetry,
+} from '../index.js';
+
+const policy = { retries: 3, baseDelayMs: 100, maxDelayMs: 250, attemptTimeoutMs: 10_000, totalTimeoutMs: 60_000 };
+
+// An attempt that never answers and fails, as the SDK does, once its signal aborts
+function hang(signal: AbortSignal): Promise<never> {
+  return new Promise((_, reject) => signal.addEventListener('abort', () => reject(new Error('Request was aborted.'))));
+}
+
+// Attempt function that records when it was called and fails with the given errors in turn
+function failing(...errors: Error[]) {
+  const calls: number[] = [];
+  const fn = async () => {
+    calls.push(Date.now());
+    const error = errors[calls.length - 1];
+    if (error) {
+      throw error;
+    }
+    return 'ok';
+  };
+  return { calls, fn };
+}
+
+describe('parseRetryAfter', () => {
+  it('reads retry-after in seconds', () => {
+    expect(parseRetryAfter(new Headers({ 'retry-after': '2' }))).toBe(2000);
+    expect(parseRetryAfter(new Headers({ 'retry-after': '0.5' }))).toBe(500);
+  });
+
+  it('prefers retry-after-ms', () => {
+    expect(parseRetryAfter(new Headers({ 'retry-after-ms': '1500', 'retry-after': '9' }))).toBe(1500);
+  });
+
+  it('reads retry-after as an HTTP date', () => {
+    const date = 'Wed, 21 Oct 2015 07:28:00 GMT';
+    expect(parseRetryAfter(new Headers({ 'retry-after': date }), Date.parse(date) - 5000)).toBe(5000);
+    expect(parseRetryAfter(new Headers({ 'retry-after': date }), Date.parse(date) + 5000)).toBe(0);
+  });
+
+  it('ignores missing and unreadable values', () => {
+    expect(parseRetryAfter(undefined)).toBeUndefined();
+    expect(parseRetryAfter(new Headers())).toBeUndefined();
+    expect(parseRetryAfter(new Headers({ 'retry-after': 'soon' }))).toBeUndefined();
+  });
+});
+
+describe('withRetry', () => {
+  beforeEach(() => {
+    vi.useFakeTimers({ now: 0 });
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+    vi.restoreAllMocks();
+  });
+
+  it('backs off with full jitter, capped at maxDelayMs', async () => {
+    vi.spyOn(Math, 'random').mockReturnValue(0.5);
+    const { calls, fn } = failing(new HttpError('down', 500), new HttpError('down', 502), new HttpError('slow down', 429));
+    const result = withRetry(fn, { policy });
+    await vi.runAllTimersAsync();
+
+    await expect(result).resolves.toBe('ok');
+    // Delays of half of 100, 200 and min(400, 250)
+    expect(calls).toEqual([0, 50, 150, 275]);
+  });
+
+  it('waits as long as retry-after asks', async () => {
+    const { calls, fn } = failing(new HttpError('slow down', 429, undefined, 2000));
+    const result = withRetry(fn, { policy });
+    await vi.runAllTimersAsync();
+
+    await expect(result).resolves.toBe('ok');
+    expect(calls).toEqual([0, 2000]);
+  });
+
+  it('does not retry client errors or quota errors', async () => {
+    for (const error of [new HttpError('bad', 400), new HttpError('quota', 429, undefined, undefined, 'insufficient_quota')]) {
+      const { calls, fn } = failing(error);
+      await expect(withRetry(fn, { policy })).rejects.toBe(error);
+      expect(calls).toHaveLength(1);
+    }
+  });
+
+  it('times out a hanging attempt and retries it', async () => {
+    vi.spyOn(Math, 'random').mockReturnValue(0);
+    const fn = vi.fn(hang);
+    const result = withRetry(fn, { policy: { ...policy, retries: 1, attemptTimeoutMs: 1000 } }).catch(e => e);
+    await vi.runAllTimersAsync();
+
+    const error = await result;
+    expect(error).toBeInstanceOf(TimeoutError);
+    expect(error.message).toBe('Request timed out after 1s.');
+    expect(fn).toHaveBeenCalledTimes(2);
+  });
+
+  it('shortens the last attempt to the total deadline and stops there', async () => {
+    vi.spyOn(Math, 'random').mockReturnValue(0);
+    const fn = vi.fn(hang);
+    const result = withRetry(fn, { policy: { ...policy, retries: 10, attemptTimeoutMs: 1000, totalTimeoutMs: 2500 } }).catch(e => e);
+    await vi.runAllTimersAsync();
+
+    const error = await result;
+    expect(error).toBeInstanceOf(TimeoutError);
+    expect(error.message).toBe('Request timed out after 0.5s.');
+    expect(fn).toHaveBeenCalledTimes(3);
+    expect(Date.now()).toBe(2500);
+  });
+
+  it('does not start a retry whose delay passes the deadline', async () => {
+    const error = new HttpError('slow down', 429, undefined, 5000);
+    const { calls, fn } = failing(error);
+    await expect(withRetry(fn, { policy: { ...policy, totalTimeoutMs: 3000 } })).rejects.toBe(error);
+    expect(calls).toHaveLength(1);
+  });
+
+  it('aborts the running attempt when cancelled', async () => {
+    const controller = new AbortController();
+    const fn = vi.fn(hang);
+    const result = withRetry(fn, { policy, signal: controller.signal }).catch(e => e);
+    await vi.advanceTimersByTimeAsync(100);
+    controller.abort();
+
+    expect(await result).toBeInstanceOf(CancelledError);
+    expect(fn).toHaveBeenCalledTimes(1);
+    expect(fn.mock.calls[0][0].aborted).toBe(true);
+  });
+
+  it('stops waiting for a retry when cancelled', async () => {
+    const controller = new AbortController();
+    const { calls, fn } = failing(new HttpError('slow down', 429, undefined, 5000));
+    const result = withRetry(fn, { policy, signal: controller.signal }).catch(e => e);
+    await vi.advanceTimersByTimeAsync(1000);
+    controller.abort();
+
+    expect(await result).toBeInstanceOf(CancelledError);
+    expect(calls).toHaveLength(1);
+  });
+
+  it('does not call at all once cancelled', async () => {
+    const controller = new AbortController();
+    controller.abort();
+    const fn = vi.fn(async () => 'ok');
+    await expect(withRetry(fn, { policy, signal: controller.signal })).rejects.toBeInstanceOf(CancelledError);
+    expect(fn).not.toHaveBeenCalled();
+  });
+});
+
+describe('CircuitBreaker', () => {
+  beforeEach(() => {
+    vi.useFakeTimers({ now: 0 });
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('opens after threshold failures in a row', () => {
+    const circuit = new CircuitBreaker('openai:gpt-5', 2, 1000);
+    circuit.failure();
+    expect(circuit.check()).toBe(false);
+    circuit.failure();
+
+    expect(() => circuit.check(400)).toThrow(CircuitOpenError);
+    expect(() => circuit.check(400)).toThrow(expect.objectContaining({ retryAfterMs: 600 }));
+  });
+
+  it('lets one trial call through after the cooldown', () => {
+    const circuit = new CircuitBreaker('openai:gpt-5', 1, 1000);
+    circuit.failure(0);
+
+    expect(circuit.check(1000)).toBe(true);
+    expect(() => circuit.check(1000)).toThrow(CircuitOpenError);
+  });
+
+  it('closes when the trial succeeds', () => {
+    const circuit = new CircuitBreaker('openai:gpt-5', 1, 1000);
+    circuit.failure(0);
+    circuit.check(1000);
+    circuit.success();
+
+    expect(circuit.check(1000)).toBe(false);
+    expect(circuit.check(1000)).toBe(false);
+  });
+
+  it('opens for another cooldown when the trial fails', () => {
+    const circuit = new CircuitBreaker('openai:gpt-5', 1, 1000);
+    circuit.failure(0);
+    circuit.check(1000);
+    circuit.failure(1000);
+
+    expect(() => circuit.check(1500)).toThrow(CircuitOpenError);
+    expect(circuit.check(2000)).toBe(true);
+  });
+
+  it('resets the failure count on success', () => {
+    const circuit = new CircuitBreaker('openai:gpt-5', 2, 1000);
+    circuit.failure();
+    circuit.success();
+    circuit.failure();
+
+    expect(circuit.check()).toBe(false);
+  });
+
+  it('lets the next call be the trial when a trial call is cancelled', async () => {
+    const circuit = new CircuitBreaker('openai:gpt-5', 1, 1000);
+    circuit.failure(0);
+    vi.setSystemTime(1000);
+
+    const controller = new AbortController();
+    const result = withRetry(hang, { policy, signal: controller.signal, circuit }).catch(e => e);
+    await vi.advanceTimersByTimeAsync(10);
+    controller.abort();
+
+    expect(await result).toBeInstanceOf(CancelledError);
+    expect(circuit.check()).toBe(true);
+  });
+
+  it('fails fast in withRetry while open', async () => {
+    const circuit = new CircuitBreaker('openai:gpt-5', 1, 1000);
+    const { calls, fn } = failing(new HttpError('down', 500), new HttpError('down', 500));
+    await expect(withRetry(fn, { policy: { ...policy, retries: 0 }, circuit })).rejects.toBeInstanceOf(HttpError);
+    await expect(withRetry(fn, { policy, circuit })).rejects.toBeInstanceOf(CircuitOpenError);
+    expect(calls).toHaveLength(1);
+  });
+});
+
+describe('withRetry with a rate limiter', () => {
+  beforeEach(() => {
+    vi.useFakeTimers({ now: 0 });
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  // A limiter with one slot, already taken
+  async function busyLimiter(maxQueued = 5) {
+    const limiter = new RateLimiter({}, 1, maxQueued);
+    const held = await limiter.acquire('openai', 'gpt-5', 10);
+    const acquire = (signal: AbortSignal) => limiter.acquire('openai', 'gpt-5', 10, undefined, signal);
+    return { held, acquire };
+  }
+
+  it('starts the attempt timeout once the slot is free', async () => {
+    const { held, acquire } = await busyLimiter();
+    const circuit = new CircuitBreaker('openai:gpt-5', 1, 1000);
+    const fn = vi.fn(async () => 'ok');
+    const result = withRetry(fn, { policy: { ...policy, attemptTimeoutMs: 1000 }, circuit, acquire });
+    await vi.advanceTimersByTimeAsync(3000);
+    expect(fn).not.toHaveBeenCalled();
+    held.release();
+
+    await expect(result).resolves.toBe('ok');
+    expect(circuit.check()).toBe(false);
+  });
+
+  it('does not count a call that times out in the queue as an outage', async () => {
+    const { acquire } = await busyLimiter();
+    const circuit = new CircuitBreaker('openai:gpt-5', 1, 1000);
+    const fn = vi.fn(async () => 'ok');
+    const result = withRetry(fn, { policy: { ...policy, totalTimeoutMs: 2000 }, circuit, acquire }).catch(e => e);
+    await vi.advanceTimersByTimeAsync(2000);
+
+    const error = await result;
+    expect(error).toBeInstanceOf(TimeoutError);
+    expect(error.message).toBe('Request did not succeed within 2s.');
+    expect(fn).not.toHaveBeenCalled();
+    expect(circuit.check()).toBe(false);
+  });
+
+  it('leaves an open circuit alone when the queue is full', async () => {
+    const { acquire } = await busyLimiter(1);
+    const controller = new AbortController();
+    acquire(controller.signal).catch(() => {});
+    const circuit = new CircuitBreaker('openai:gpt-5', 1, 1000);
+    circuit.failure(0);
+    vi.setSystemTime(1000);
+
+    await expect(withRetry(async () => 'ok', { policy, circuit, acquire })).rejects.toBeInstanceOf(QueueFullError);
+    // Still open, with the trial call not yet taken
+    expect(circuit.check()).toBe(true);
+    controller.abort();
+  });
+
+  it('keeps the circuit open when the trial fails without an upstream answer', async () => {
+    const circuit = new CircuitBreaker('openai:gpt-5', 1, 1000);
+    circuit.failure(0);
+    vi.setSystemTime(1000);
+
+    await expect(withRetry(async () => { throw new Error('Local failure'); }, { policy, circuit })).rejects.toThrow('Local failure');
+    expect(circuit.check()).toBe(true);
+  });
+});
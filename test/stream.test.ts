@@ -0,0 +1,136 @@
+import { describe, expect, it } from 'vitest';
+import { classifyError, consumeResponseStream, HttpError } from '../index.js';
+
+async function* events(...items: any[]) {
+  for (const item of items) {
+    yield item;
+  }
+}
+
+// Progress reporter that records messages, and a clock the test advances
+function recorder() {
+  const messages: string[] = [];
+  return { messages, report: async (message: string) => { messages.push(message); } };
+}
+
+function clock(...times: number[]) {
+  let index = 0;
+  return () => times[Math.min(index++, times.length - 1)];
+}
+
+const response = { id: 'resp_1', status: 'completed', output: [] };
+
+describe('consumeResponseStream', () => {
+  it('reports reasoning, web search and writing progress and returns the completed response', async () => {
+    const { messages, report } = recorder();
+    const result = await consumeResponseStream(events(
+      { type: 'response.created', response: { ...response, status: 'in_progress' } },
+      { type: 'response.output_item.added', item: { type: 'reasoning' } },
+      { type: 'response.reasoning_summary_text.done', text: 'Comparing releases' },
+      { type: 'response.web_search_call.searching' },
+      { type: 'response.output_item.done', item: { type: 'web_search_call', action: { type: 'search', query: 'node lts' } } },
+      { type: 'response.output_item.done', item: { type: 'web_search_call' } },
+      { type: 'response.output_item.added', item: { type: 'message' } },
+      { type: 'response.completed', response },
+    ), report);
+
+    expect(result).toBe(response);
+    expect(messages).toEqual([
+      'Request accepted by the model',
+      'Reasoning...',
+      'Reasoning: Comparing releases',
+      'Searching the web...',
+      'Searched the web: node lts',
+      'Web search completed',
+      'Writing answer...',
+    ]);
+  });
+
+  it('throttles partial text progress and sends only the tail of the text', async () => {
+    const { messages, report } = recorder();
+    const long = 'x'.repeat(300);
+    await consumeResponseStream(events(
+      { type: 'response.output_text.delta', delta: 'Node ' },
+      { type: 'response.output_text.delta', delta: '22 ' },
+      { type: 'response.output_text.delta', delta: long },
+      { type: 'response.completed', response },
+    ), report, clock(1000, 1500, 2000));
+
+    expect(messages).toEqual([
+      'Answer so far (5 chars): ...Node ',
+      `Answer so far (308 chars): ...${('Node 22 ' + long).slice(-200)}`,
+    ]);
+  });
+
+  it('returns an incomplete response', async () => {
+    const incomplete = { ...response, status: 'incomplete', incomplete_details: { reason: 'max_output_tokens' } };
+    const result = await consumeResponseStream(events(
+      { type: 'response.output_text.delta', delta: 'Node 22 is' },
+      { type: 'response.incomplete', response: incomplete },
+    ), recorder().report, clock(0));
+
+    expect(result).toBe(incomplete);
+  });
+
+  it('throws an HttpError carrying the code of a failed response', async () => {
+    const failed = { ...response, status: 'failed', error: { code: 'server_error', message: 'The model crashed' } };
+    const error = await consumeResponseStream(events(
+      { type: 'response.failed', response: failed },
+    ), recorder().report).catch(e => e);
+
+    expect(error).toBeInstanceOf(HttpError);
+    expect(error.message).toBe('OpenAI API error: The model crashed');
+    expect(error.status).toBe(500);
+    expect(error.errorCode).toBe('server_error');
+    expect(error.body).toBe(failed);
+    expect(classifyError(error)).toMatchObject({ code: 'upstream_unavailable', retryable: true });
+  });
+
+  it.each([
+    ['invalid_prompt', 400, 'validation'],
+    ['content_filter', 400, 'content_filter'],
+    ['rate_limit_exceeded', 429, 'rate_limit'],
+    [undefined, 500, 'upstream_unavailable'],
+  ])('maps a failed response with code %s to status %i', async (code, status, errorCode) => {
+    const failed = { ...response, status: 'failed', error: { code, message: 'Failed' } };
+    const error = await consumeResponseStream(events(
+      { type: 'response.failed', response: failed },
+    ), recorder().report).catch(e => e);
+
+    expect(error.status).toBe(status);
+    expect(classifyError(error).code).toBe(errorCode);
+  });
+
+  it('throws an HttpError for an error event', async () => {
+    const error = await consumeResponseStream(events(
+      { type: 'response.created', response },
+      { type: 'error', message: 'Stream broke', code: 'server_error' },
+    ), recorder().report).catch(e => e);
+
+    expect(error).toBeInstanceOf(HttpError);
+    expect(error.message).toBe('OpenAI API error: Stream broke');
+    expect(error.errorCode).toBe('server_error');
+  });
+
+  it('treats an error event for a bad prompt as not retryable', async () => {
+    const error = await consumeResponseStream(events(
+      { type: 'error', message: 'Invalid prompt', code: 'invalid_prompt' },
+    ), recorder().report).catch(e => e);
+
+    expect(error.status).toBe(400);
+    expect(classifyError(error)).toMatchObject({ code: 'validation', retryable: false });
+  });
+
+  it('throws when the stream ends before the response completes', async () => {
+    await expect(consumeResponseStream(events(
+      { type: 'response.output_text.delta', delta: 'Node' },
+    ), recorder().report, clock(0))).rejects.toThrow('Response stream ended before the response completed');
+  });
+});
+
+describe('classifyError', () => {
+  it('reports a content filter block as content_filter even with a 5xx status', () => {
+    const error = new HttpError('OpenAI API error: Blocked', 500, undefined, undefined, undefined, 'content_filter');
+    expect(classifyError(error)).toMatchObject({ code: 'content_filter', retryable: false, status: 500 });
+  });
+});